@@ -1,94 +1,188 @@
 import React, { useEffect, useMemo, useState } from "react";
-import {
-  LineChart,
-  Line,
-  XAxis,
-  YAxis,
-  CartesianGrid,
-  Tooltip,
-  Legend,
-  ReferenceArea,
-  ReferenceLine,
-  Brush,
-  ResponsiveContainer,
-} from "recharts";
 import {
   FileUp,
   FileText,
+  RotateCcw,
+  Printer,
+  Activity,
   Calendar as CalendarIcon,
-  ChevronUp,
-  ChevronDown,
-  ChevronsUpDown,
 } from "lucide-react";
-import JSZip from "jszip";
-import Papa from "papaparse";
 import { DatePickerWithPresets } from "./components/DatePicker";
+import { RegimenChart } from "./components/RegimenChart";
+import { DoseResponse } from "./components/DoseResponse";
+import { ImportError, ImportPreview } from "./components/ImportPreview";
+import { NumberField } from "./components/NumberField";
+import { ColumnMapper } from "./components/ColumnMapper";
+import { SourceMerge } from "./components/SourceMerge";
+import { ExportMenu } from "./components/ExportMenu";
+import { TimeSeriesChart } from "./components/TimeSeriesChart";
+import {
+  StageCompositionChart,
+  type StageScale,
+} from "./components/StageCompositionChart";
+import { ChartCard } from "./components/ChartCard";
+import { SortableHeader } from "./components/SortableHeader";
+import { MedDeltaTable } from "./components/MedDeltaTable";
+import { ClinicianReport } from "./components/ClinicianReport";
+import { UnusualNights } from "./components/UnusualNights";
+import { RegimeShifts } from "./components/RegimeShifts";
+import { WeekdayBreakdown } from "./components/WeekdayBreakdown";
+import { CorrelationExplorer } from "./components/CorrelationExplorer";
+import { CalendarHeatmap } from "./components/CalendarHeatmap";
+import { JournalEditor } from "./components/JournalEditor";
+import { MedLogEditor } from "./components/MedLogEditor";
+import { TagComparison } from "./components/TagComparison";
+import type {
+  CalendarDate,
+  CovariateRow,
+  JournalEntry,
+  MedEvent,
+  MonthlyData,
+  SleepDay,
+  SleepRow,
+} from "./lib/types";
+import {
+  bedtimeHours,
+  formatClock,
+  midpointHours,
+  sleepConcordance,
+  socialJetlag,
+  sriScore,
+  wakeHours,
+} from "./lib/timing";
+import {
+  addDays,
+  calendarDateOf,
+  calendarDateToUtc,
+  calendarMonth,
+  compareDates,
+  restoreCalendarDate,
+  toLocalDate,
+  today,
+} from "./lib/dates";
+import {
+  DEFAULT_MERGE_POLICY,
+  mergeNights,
+  sourceNames,
+  type MergePolicy,
+} from "./lib/merge";
+import { DEFAULT_DAY_START, groupSleepDays, withNaps } from "./lib/sessions";
+import { journalByDate, tagSplits } from "./lib/journal";
+import {
+  NIGHT_METRICS,
+  SERIES_METRICS,
+  sleepEfficiency,
+  timeInBed,
+} from "./lib/metrics";
+import {
+  covariateFields,
+  covariateMetrics,
+  covariateNames,
+  covariateSeries,
+  covariatesByDate,
+  mergeCovariates,
+} from "./lib/covariates";
+import {
+  DEFAULT_CHANGE_POINT_OPTIONS,
+  detectSegments,
+  nearestEvents,
+  regimeShifts,
+  type ChangePointOptions,
+} from "./lib/changePoints";
+import {
+  DEFAULT_ANOMALY_OPTIONS,
+  scoreAnomalies,
+  type AnomalyOptions,
+} from "./lib/anomalies";
+import {
+  DEFAULT_DELTA_WINDOWS,
+  deltaWindows,
+  type DeltaWindowOptions,
+} from "./lib/deltas";
+import {
+  MED_FIELDS,
+  SLEEP_FIELDS,
+  csvHeaders,
+  parseCovariatesCsv,
+  parseMedsCsvText,
+  parseMedsTxt,
+  parseSleepCsvText,
+  parseCsv,
+  parseJson,
+  parseSleepFiles,
+  parseZip,
+  type ColumnMapping,
+  type CovariateImport,
+  type MedImport,
+  type SleepImport,
+} from "./lib/importers";
+import {
+  groupHealthNights,
+  parseAppleHealthXml,
+} from "./lib/appleHealth";
+import {
+  matchProfile,
+  upsertProfile,
+  type ImportKind,
+  type ImportProfile,
+} from "./lib/profiles";
+import {
+  MONTHLY_COLUMNS,
+  covariateColumns,
+  deltaTableRows,
+  nightColumns,
+  tagTableRows,
+  type ExportTable,
+} from "./lib/exporters";
+import {
+  STORAGE_KEYS,
+  loadItem,
+  removeItem,
+  saveItem,
+} from "./lib/storage";
 
-type SleepRow = {
-  date: Date;
-  totalSleep: number;
-  core: number;
-  deep: number;
-  rem: number;
-  awake: number;
-};
-
-type MedEvent = {
-  date: Date;
-  label: string;
-};
-
-type MonthlyData = {
-  month: string;
-  remPct: number;
-  deepPct: number;
-  total: number;
-  awake: number;
-  n: number;
-};
-
-function parseFloatSafe(v: any): number {
-  const n = parseFloat(String(v ?? "").replace(",", "."));
-  return isFinite(n) ? n : 0;
-}
-
-function formatYM(d: Date) {
-  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}`;
-}
-
-function addDays(d: Date, n: number) {
-  const x = new Date(d);
-  x.setDate(x.getDate() + n);
-  return x;
-}
-
-function rolling<T>(arr: T[], k: number, getter: (t: T) => number) {
+function rolling<T>(arr: T[], k: number, getter: (t: T) => number | null) {
   const out: (number | null)[] = new Array(arr.length).fill(null);
   let sum = 0;
-  const q: number[] = [];
+  let count = 0;
+  const q: (number | null)[] = [];
   
   for (let i = 0; i < arr.length; i++) {
-    const v = getter(arr[i]);
-    sum += v;
+    const raw = getter(arr[i]);
+    const v = raw !== null && isFinite(raw) ? raw : null;
+    if (v !== null) {
+      sum += v;
+      count++;
+    }
     q.push(v);
     
     if (q.length > k) {
-      sum -= q.shift()!;
+      const old = q.shift()!;
+      if (old !== null) {
+        sum -= old;
+        count--;
+      }
     }
     
-    if (q.length === k) {
-      out[i] = sum / k;
+    // Missing values (e.g. nights without Start/End) are skipped, not zeroed
+    if (q.length === k && count > 0) {
+      out[i] = sum / count;
     }
   }
   
   return out;
 }
 
-function monthGroups(rows: SleepRow[]) {
-  const map = new Map<string, SleepRow[]>();
+function avgOf(values: (number | null)[]) {
+  const xs = values.filter((v): v is number => v !== null && isFinite(v));
+  return xs.length ? xs.reduce((s, v) => s + v, 0) / xs.length : NaN;
+}
+
+function monthGroups<T extends SleepRow>(rows: T[]) {
+  const map = new Map<string, T[]>();
   
   rows.forEach((r) => {
-    const key = formatYM(r.date);
+    const key = calendarMonth(r.date);
     if (!map.has(key)) map.set(key, []);
     map.get(key)!.push(r);
   });
@@ -96,443 +190,457 @@ function monthGroups(rows: SleepRow[]) {
   return Array.from(map.entries()).sort((a, b) => (a[0] < b[0] ? -1 : 1));
 }
 
-function normalizeRow(row: any): SleepRow | null {
-  const dateStr = row["Date/Time"] || row["Date"] || row["date"];
-  if (!dateStr) return null;
-  
-  const date = new Date(dateStr);
-  if (isNaN(date.getTime())) return null;
-  
-  const total = parseFloatSafe(
-    row["Total Sleep (hr)"] ?? row["Asleep (hr)"] ?? row["TotalSleep"]
-  );
-  const core = parseFloatSafe(row["Core (hr)"] ?? row["Core"]);
-  const deep = parseFloatSafe(row["Deep (hr)"] ?? row["Deep"]);
-  const rem = parseFloatSafe(row["REM (hr)"] ?? row["REM"]);
-  const awake = parseFloatSafe(row["Awake (hr)"] ?? row["Awake"]);
-  
-  return { date, totalSleep: total, core, deep, rem, awake };
-}
-
-async function parseZip(file: File): Promise<SleepRow[]> {
-  const zip = await JSZip.loadAsync(file);
-  const rows: SleepRow[] = [];
-  const fileNames = Object.keys(zip.files).filter((n) =>
-    n.toLowerCase().endsWith(".csv")
-  );
-  
-  for (const name of fileNames) {
-    const f = zip.file(name);
-    if (!f) continue;
-    
-    const text = await f.async("text");
-    const parsed = Papa.parse(text, { header: true }).data as any[];
-    parsed.forEach((r) => {
-      const n = normalizeRow(r);
-      if (n) rows.push(n);
-    });
+async function loadBundledMeds(): Promise<MedEvent[]> {
+  try {
+    const res = await fetch("./medications.csv");
+    if (!res.ok) return [];
+    return parseMedsCsvText(await res.text()).events;
+  } catch {
+    return [];
   }
-  
-  return rows.sort((a, b) => a.date.getTime() - b.date.getTime());
 }
 
-async function parseCsv(file: File): Promise<SleepRow[]> {
-  const text = await file.text();
-  const parsed = Papa.parse(text, { header: true }).data as any[];
-  const rows: SleepRow[] = [];
-  
-  parsed.forEach((r) => {
-    const n = normalizeRow(r);
-    if (n) rows.push(n);
-  });
-  
-  return rows.sort((a, b) => a.date.getTime() - b.date.getTime());
-}
-
-async function parseMedsTxt(file: File): Promise<MedEvent[]> {
-  const text = await file.text();
-  const lines = text.split(/\r?\n/).map((l) => l.trim()).filter(Boolean);
-  const events: MedEvent[] = [];
-  
-  for (const line of lines) {
-    const idx = line.indexOf(" - ");
-    if (idx === -1) continue;
-    
-    const dateStr = line.slice(0, idx).trim();
-    const label = line.slice(idx + 3).trim();
-    const d = new Date(dateStr);
-    
-    if (!isNaN(d.getTime())) {
-      events.push({ date: d, label });
-    }
+async function loadBundledSleep(): Promise<SleepRow[]> {
+  try {
+    const res = await fetch("./sleep_data.csv");
+    if (!res.ok) return [];
+    return parseSleepCsvText(await res.text()).rows;
+  } catch {
+    return [];
   }
-  
-  return events.sort((a, b) => a.date.getTime() - b.date.getTime());
 }
 
-function parseMedsCsvText(text: string): MedEvent[] {
-  const { data } = Papa.parse(text, { header: true, skipEmptyLines: true });
-  const events: MedEvent[] = [];
-  
-  for (const row of data as any[]) {
-    const dateStr = row["date"] || row["Date"];
-    if (!dateStr) continue;
-    
-    const d = new Date(dateStr);
-    if (isNaN(d.getTime())) continue;
-    
-    const med = (row["medication"] || row["Medication"] || "").toString().trim();
-    const doseVal = row["dose_mg"] ?? row["DoseMg"] ?? row["dose"];
-    const dose =
-      doseVal !== undefined &&
-      doseVal !== null &&
-      String(doseVal).trim() !== ""
-        ? parseFloatSafe(doseVal)
-        : NaN;
-    const actionRaw = (row["action"] || row["Action"] || "")
-      .toString()
-      .trim()
-      .toUpperCase();
-    const action = actionRaw === "START" || actionRaw === "STOP" ? actionRaw : "";
-    const doseLabel = isFinite(dose) && dose > 0 ? `${dose} mg` : "";
-    const parts = [med, doseLabel].filter(Boolean).join(" ");
-    const label = action ? `${parts} - ${action}` : parts;
-    
-    events.push({ date: d, label });
-  }
-  
-  return events.sort((a, b) => a.date.getTime() - b.date.getTime());
+/** Saved date filters were Date objects from the date picker, i.e. local midnight. */
+function restoreSettingsDate(v: CalendarDate | Date) {
+  return v instanceof Date ? calendarDateOf(v) : v;
 }
 
-async function parseMedsCsv(file: File): Promise<MedEvent[]> {
-  const text = await file.text();
-  return parseMedsCsvText(text);
-}
+/** In-app medication edits that can be undone. */
+const MED_UNDO_LIMIT = 50;
 
-function ChartCard({
-  title,
-  subtitle,
-  children,
-}: {
-  title: string;
-  subtitle?: string;
-  children: React.ReactNode;
-}) {
-  return (
-    <div className="rounded-2xl border p-4">
-      <div className="mb-2">
-        <h3 className="font-medium">{title}</h3>
-        {subtitle && <div className="text-xs text-gray-500">{subtitle}</div>}
-      </div>
-      {children}
-    </div>
-  );
-}
+type ViewSettings = {
+  dateFrom: CalendarDate | null;
+  dateTo: CalendarDate | null;
+  rollK: number;
+  sortColumn: keyof MonthlyData;
+  sortDirection: "asc" | "desc";
+  showMedLabels: boolean;
+  deltaOpts: DeltaWindowOptions;
+  mergePolicy: MergePolicy;
+  dayStartHour: number;
+  includeNaps: boolean;
+  reportPatient: string;
+  stageScale: StageScale;
+  anomalyOpts: AnomalyOptions;
+  changePointOpts: ChangePointOptions;
+  showRegimes: boolean;
+  heatmapMetric: string;
+  /** Covariate overlaid on each time-series chart, by the chart's series key ("" for none). */
+  chartOverlays: Record<string, string>;
+};
 
-function SortableHeader({
-  column,
-  currentSort,
-  direction,
-  onSort,
-  children,
-  align = "left",
-}: {
-  column: keyof MonthlyData;
-  currentSort: keyof MonthlyData;
-  direction: "asc" | "desc";
-  onSort: (col: keyof MonthlyData, dir: "asc" | "desc") => void;
-  children: React.ReactNode;
-  align?: "left" | "right";
-}) {
-  const isActive = currentSort === column;
-  
-  const handleClick = () => {
-    if (isActive) {
-      // Toggle direction if same column
-      onSort(column, direction === "asc" ? "desc" : "asc");
-    } else {
-      onSort(column, "desc");
-    }
-  };
-  
-  const getIcon = () => {
-    if (!isActive) return <ChevronsUpDown className="w-3 h-3 opacity-50" />;
-    return direction === "asc" ? (
-      <ChevronUp className="w-3 h-3" />
-    ) : (
-      <ChevronDown className="w-3 h-3" />
-    );
+function defaultSettings(): ViewSettings {
+  return {
+    dateFrom: addDays(today(), -180),
+    dateTo: null,
+    rollK: 7,
+    sortColumn: "month",
+    sortDirection: "desc",
+    showMedLabels: false,
+    deltaOpts: DEFAULT_DELTA_WINDOWS,
+    mergePolicy: DEFAULT_MERGE_POLICY,
+    dayStartHour: DEFAULT_DAY_START,
+    includeNaps: false,
+    reportPatient: "",
+    stageScale: "hours",
+    anomalyOpts: DEFAULT_ANOMALY_OPTIONS,
+    changePointOpts: DEFAULT_CHANGE_POINT_OPTIONS,
+    showRegimes: false,
+    heatmapMetric: "total",
+    chartOverlays: {},
   };
-  
-  return (
-    <th
-      className={`px-3 py-2 cursor-pointer hover:bg-gray-100 select-none ${
-        align === "right" ? "text-right" : "text-left"
-      }`}
-      onClick={handleClick}
-    >
-      <div
-        className={`flex items-center gap-1 ${
-          align === "right" ? "justify-end" : "justify-start"
-        }`}
-      >
-        {children}
-        {getIcon()}
-      </div>
-    </th>
-  );
-}
-
-function TimeSeriesChart({
-  data,
-  yKey,
-  y2Key,
-  meds,
-}: {
-  data: any[];
-  yKey: string;
-  y2Key?: string;
-  meds?: MedEvent[];
-}) {
-  return (
-    <div className="h-72 w-full">
-      <ResponsiveContainer width="100%" height="100%">
-        <LineChart data={data} margin={{ top: 60, right: 20, left: 10, bottom: 0 }}>
-          <CartesianGrid strokeDasharray="3 3" />
-          <XAxis dataKey="dateStr" minTickGap={32} />
-          <YAxis width={40} />
-          <Tooltip
-            formatter={(v: any) => (typeof v === "number" ? v.toFixed(2) : v)}
-            labelFormatter={(l: any) => `Date: ${l}`}
-          />
-          <Legend />
-          {meds?.map((m, i) => (
-            <ReferenceLine
-              key={i}
-              x={m.date.toISOString().slice(0, 10)}
-              stroke="hsla(220, 20%, 10%, .8)"
-              strokeDasharray="2 2"
-              label={{
-                position: "top",
-                value: m.label,
-                angle: -90,
-                offset: 0,
-                fill: "hsl(220, 20%, 20%)",
-                fontSize: 11,
-              }}
-            />
-          ))}
-          <Line
-            type="monotone"
-            dataKey={yKey}
-            name={yKey}
-            stroke="#3b82f6"
-            dot={false}
-            strokeWidth={1.5}
-          />
-          {y2Key && (
-            <Line
-              type="monotone"
-              dataKey={y2Key}
-              name={`${yKey} (rolling)`}
-              stroke="#1f2937"
-              dot={false}
-              strokeWidth={1}
-            />
-          )}
-          <Brush dataKey="dateStr" height={18} travellerWidth={8} className="rounded" />
-        </LineChart>
-      </ResponsiveContainer>
-    </div>
-  );
-}
-
-function MedDeltaTable({ meds, data }: { meds: MedEvent[]; data: SleepRow[] }) {
-  function avg(arr: any[], key: string) {
-    return arr.length ? arr.reduce((s, r) => s + r[key], 0) / arr.length : NaN;
-  }
-  
-  function range(arr: any[], from: Date, to: Date) {
-    return arr.filter((r: any) => r.date >= from && r.date <= to);
-  }
-  
-  const rows = meds
-    .map((m) => {
-      const pre = range(data, addDays(m.date, -30), addDays(m.date, -1));
-      const post = range(data, addDays(m.date, 1), addDays(m.date, 30));
-      
-      // Calculate percentages from raw sleep data
-      const preWithPct = pre.map((r) => ({
-        ...r,
-        remPct: r.totalSleep ? (r.rem / r.totalSleep) * 100 : 0,
-        deepPct: r.totalSleep ? (r.deep / r.totalSleep) * 100 : 0,
-      }));
-      const postWithPct = post.map((r) => ({
-        ...r,
-        remPct: r.totalSleep ? (r.rem / r.totalSleep) * 100 : 0,
-        deepPct: r.totalSleep ? (r.deep / r.totalSleep) * 100 : 0,
-      }));
-      
-      const before = {
-        rem: avg(preWithPct, "remPct"),
-        deep: avg(preWithPct, "deepPct"),
-        total: avg(pre, "totalSleep"),
-        awake: avg(pre, "awake"),
-      };
-      const after = {
-        rem: avg(postWithPct, "remPct"),
-        deep: avg(postWithPct, "deepPct"),
-        total: avg(post, "totalSleep"),
-        awake: avg(post, "awake"),
-      };
-      const delta = {
-        rem: after.rem - before.rem,
-        deep: after.deep - before.deep,
-        total: after.total - before.total,
-        awake: after.awake - before.awake,
-      };
-      
-      return { m, before, after, delta };
-    })
-    .sort((a, b) => b.m.date.getTime() - a.m.date.getTime()); // Sort newest to oldest
-  
-  return (
-    <div className="overflow-auto rounded-2xl border">
-      <table className="min-w-full text-sm">
-        <thead className="bg-gray-50 text-gray-600">
-          <tr>
-            <th className="px-3 py-2 text-left">Date</th>
-            <th className="px-3 py-2 text-left">Medication change</th>
-            <th className="px-3 py-2 text-right">Δ Deep %</th>
-            <th className="px-3 py-2 text-right">Δ REM %</th>
-            <th className="px-3 py-2 text-right">Δ Total hrs</th>
-            <th className="px-3 py-2 text-right">Δ Awake hrs</th>
-          </tr>
-        </thead>
-        <tbody>
-          {rows.map(({ m, delta }, idx) => (
-            <tr key={idx} className="border-t">
-              <td className="px-3 py-2 whitespace-nowrap">
-                {m.date.toISOString().slice(0, 10)}
-              </td>
-              <td className="px-3 py-2 whitespace-nowrap">{m.label}</td>
-              <td className="px-3 py-2 text-right">
-                {isFinite(delta.deep) ? delta.deep.toFixed(2) : "—"}
-              </td>
-              <td className="px-3 py-2 text-right">
-                {isFinite(delta.rem) ? delta.rem.toFixed(2) : "—"}
-              </td>
-              <td className="px-3 py-2 text-right">
-                {isFinite(delta.total) ? delta.total.toFixed(2) : "—"}
-              </td>
-              <td className="px-3 py-2 text-right">
-                {isFinite(delta.awake) ? delta.awake.toFixed(2) : "—"}
-              </td>
-            </tr>
-          ))}
-        </tbody>
-      </table>
-    </div>
-  );
 }
 
 export default function App() {
   const [sleepRows, setSleepRows] = useState<SleepRow[]>([]);
   const [meds, setMeds] = useState<MedEvent[]>([]);
+  // Earlier versions of the medication log, for undoing in-app edits
+  const [medHistory, setMedHistory] = useState<MedEvent[][]>([]);
+  const [journal, setJournal] = useState<JournalEntry[]>([]);
+  const [covariates, setCovariates] = useState<CovariateRow[]>([]);
   const [minHours, setMinHours] = useState(5);
   const [maxHours, setMaxHours] = useState(12);
-  const [dateFrom, setDateFrom] = useState<Date | null>(() => {
-    const sixMonthsAgo = new Date();
-    sixMonthsAgo.setDate(sixMonthsAgo.getDate() - 180);
-    return sixMonthsAgo;
-  });
-  const [dateTo, setDateTo] = useState<Date | null>(null);
+  const [dateFrom, setDateFrom] = useState<CalendarDate | null>(
+    () => defaultSettings().dateFrom
+  );
+  const [dateTo, setDateTo] = useState<CalendarDate | null>(null);
   const [rollK, setRollK] = useState(7);
   const [sortColumn, setSortColumn] = useState<keyof MonthlyData>("month");
   const [sortDirection, setSortDirection] = useState<"asc" | "desc">("desc");
+  const [showMedLabels, setShowMedLabels] = useState(false);
+  const [deltaOpts, setDeltaOpts] = useState<DeltaWindowOptions>(
+    DEFAULT_DELTA_WINDOWS
+  );
+  const [mergePolicy, setMergePolicy] = useState<MergePolicy>(DEFAULT_MERGE_POLICY);
+  const [dayStartHour, setDayStartHour] = useState(DEFAULT_DAY_START);
+  const [includeNaps, setIncludeNaps] = useState(false);
+  const [reportPatient, setReportPatient] = useState("");
+  const [stageScale, setStageScale] = useState<StageScale>("hours");
+  const [anomalyOpts, setAnomalyOpts] = useState<AnomalyOptions>(DEFAULT_ANOMALY_OPTIONS);
+  const [changePointOpts, setChangePointOpts] = useState<ChangePointOptions>(
+    DEFAULT_CHANGE_POINT_OPTIONS
+  );
+  const [showRegimes, setShowRegimes] = useState(false);
+  const [heatmapMetric, setHeatmapMetric] = useState("total");
+  const [chartOverlays, setChartOverlays] = useState<Record<string, string>>({});
+  const [reportOpen, setReportOpen] = useState(false);
+  // Settings are only written back once the saved copy has been restored
+  const [hydrated, setHydrated] = useState(false);
+  const [pendingSleep, setPendingSleep] = useState<SleepImport | null>(null);
+  const [pendingMeds, setPendingMeds] = useState<MedImport | null>(null);
+  const [pendingCovariates, setPendingCovariates] = useState<CovariateImport | null>(null);
+  const [importError, setImportError] = useState<{ file: string; message: string } | null>(null);
+  const [profiles, setProfiles] = useState<ImportProfile[]>([]);
+  
+  function applySettings(v: ViewSettings) {
+    setDateFrom(v.dateFrom && restoreSettingsDate(v.dateFrom));
+    setDateTo(v.dateTo && restoreSettingsDate(v.dateTo));
+    setRollK(v.rollK);
+    setSortColumn(v.sortColumn);
+    setSortDirection(v.sortDirection);
+    setShowMedLabels(v.showMedLabels);
+    setDeltaOpts({ ...DEFAULT_DELTA_WINDOWS, ...v.deltaOpts });
+    setMergePolicy(v.mergePolicy ?? DEFAULT_MERGE_POLICY);
+    setDayStartHour(v.dayStartHour ?? DEFAULT_DAY_START);
+    setIncludeNaps(v.includeNaps ?? false);
+    setReportPatient(v.reportPatient ?? "");
+    setStageScale(v.stageScale ?? "hours");
+    setAnomalyOpts({ ...DEFAULT_ANOMALY_OPTIONS, ...v.anomalyOpts });
+    setChangePointOpts({ ...DEFAULT_CHANGE_POINT_OPTIONS, ...v.changePointOpts });
+    setShowRegimes(v.showRegimes ?? false);
+    setHeatmapMetric(v.heatmapMetric ?? "total");
+    setChartOverlays(v.chartOverlays ?? {});
+  }
+  
+  const setDeltaOpt = <K extends keyof DeltaWindowOptions>(
+    key: K,
+    value: DeltaWindowOptions[K]
+  ) => setDeltaOpts((o) => ({ ...o, [key]: value }));
   
   const handleSort = (column: keyof MonthlyData, direction: "asc" | "desc") => {
     setSortColumn(column);
     setSortDirection(direction);
   };
   
+  /** Runs a file's parser, reporting a corrupt or unreadable file in the import area. */
+  async function readImport(file: File, parse: () => Promise<void>) {
+    setImportError(null);
+    try {
+      await parse();
+    } catch (err) {
+      setImportError({
+        file: file.name,
+        message: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+  
   async function onUpload(e: React.ChangeEvent<HTMLInputElement>) {
     const file = e.target.files?.[0];
+    e.target.value = "";
     if (!file) return;
     
     const name = file.name.toLowerCase();
-    let rows: SleepRow[] = [];
+    const pickMapping = (headers: string[]) =>
+      matchProfile(profiles, "sleep", headers)?.mapping;
     
-    if (name.endsWith(".zip")) {
-      rows = await parseZip(file);
-    } else if (name.endsWith(".csv")) {
-      rows = await parseCsv(file);
-    }
-    
-    setSleepRows(rows);
+    await readImport(file, async () => {
+      if (name.endsWith(".zip")) {
+        setPendingSleep(await parseZip(file, pickMapping, dayStartHour));
+      } else if (name.endsWith(".csv")) {
+        setPendingSleep(await parseCsv(file, pickMapping));
+      } else if (name.endsWith(".xml")) {
+        setPendingSleep(await parseAppleHealthXml(file, dayStartHour));
+      } else if (name.endsWith(".json")) {
+        const imported = await parseJson(file);
+        if (imported) setPendingSleep(imported);
+        else {
+          setImportError({
+            file: file.name,
+            message: "This JSON file is not a recognised Oura, Fitbit or Garmin sleep export.",
+          });
+        }
+      }
+    });
   }
   
   async function onUploadMeds(e: React.ChangeEvent<HTMLInputElement>) {
     const file = e.target.files?.[0];
+    e.target.value = "";
     if (!file) return;
     
     const name = file.name.toLowerCase();
-    let events: MedEvent[] = [];
     
-    if (name.endsWith(".csv")) {
-      events = await parseMedsCsv(file);
-    } else {
-      events = await parseMedsTxt(file);
-    }
+    await readImport(file, async () => {
+      if (name.endsWith(".csv")) {
+        const text = await file.text();
+        const profile = matchProfile(profiles, "meds", csvHeaders([{ name, text }]));
+        setPendingMeds(parseMedsCsvText(text, file.name, profile?.mapping));
+      } else {
+        setPendingMeds(await parseMedsTxt(file));
+      }
+    });
+  }
+  
+  async function onUploadCovariates(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    await readImport(file, async () => setPendingCovariates(await parseCovariatesCsv(file)));
+  }
+  
+  function remapSleep(mapping: ColumnMapping) {
+    if (pendingSleep) setPendingSleep(parseSleepFiles(pendingSleep.files, mapping));
+  }
+  
+  function regroupHealth(cutoffHour: number) {
+    const health = pendingSleep?.appleHealth;
+    if (!pendingSleep || !health) return;
+    setPendingSleep(
+      groupHealthNights(
+        health.segments,
+        cutoffHour,
+        pendingSleep.report.files,
+        health.skipped
+      )
+    );
+  }
+  
+  function remapMeds(mapping: ColumnMapping) {
+    const f = pendingMeds?.files?.[0];
+    if (f) setPendingMeds(parseMedsCsvText(f.text, f.name, mapping));
+  }
+  
+  function updateProfiles(next: ImportProfile[]) {
+    setProfiles(next);
+    saveItem(STORAGE_KEYS.profiles, next).catch(() => {
+      /* no-op */
+    });
+  }
+  
+  function saveProfile(kind: ImportKind, name: string, mapping: ColumnMapping) {
+    updateProfiles(upsertProfile(profiles, { name, kind, mapping }));
+  }
+  
+  function deleteProfile(kind: ImportKind, name: string) {
+    updateProfiles(profiles.filter((p) => !(p.kind === kind && p.name === name)));
+  }
+  
+  function confirmSleepImport(skipIncomplete: boolean, merge = false) {
+    if (!pendingSleep) return;
+    const importedAt = Date.now();
+    const accepted = (
+      skipIncomplete
+        ? pendingSleep.rows.filter((r) => !pendingSleep.incomplete.has(r))
+        : pendingSleep.rows
+    ).map((r) => ({ ...r, importedAt }));
+    // Merging keeps every row; overlapping nights are resolved by mergePolicy
+    const rows = merge ? [...sleepRows, ...accepted] : accepted;
+    
+    // The night cutoff chosen for an Apple Health export becomes the day boundary
+    if (pendingSleep.appleHealth) setDayStartHour(pendingSleep.appleHealth.cutoffHour);
+    setSleepRows(rows);
+    setPendingSleep(null);
+    saveItem(STORAGE_KEYS.sleepRows, rows).catch(() => {
+      /* storage unavailable; keep in memory only */
+    });
+  }
+  
+  function confirmMedsImport() {
+    if (!pendingMeds) return;
     
+    setMeds(pendingMeds.events);
+    setMedHistory([]);
+    setPendingMeds(null);
+    saveItem(STORAGE_KEYS.meds, pendingMeds.events).catch(() => {
+      /* storage unavailable; keep in memory only */
+    });
+  }
+  
+  function saveMeds(next: MedEvent[]) {
+    setMeds(next);
+    saveItem(STORAGE_KEYS.meds, next).catch(() => {
+      /* storage unavailable; keep in memory only */
+    });
+  }
+  
+  function editMeds(next: MedEvent[]) {
+    setMedHistory((h) => [...h.slice(-(MED_UNDO_LIMIT - 1)), meds]);
+    saveMeds(next);
+  }
+  
+  function undoMedEdit() {
+    const previous = medHistory[medHistory.length - 1];
+    if (!previous) return;
+    setMedHistory(medHistory.slice(0, -1));
+    saveMeds(previous);
+  }
+  
+  function confirmCovariatesImport(merge: boolean) {
+    if (!pendingCovariates) return;
+    // Duplicate dates within the file collapse to one row, later values winning
+    const rows = mergeCovariates(merge ? covariates : [], pendingCovariates.rows);
+    
+    setCovariates(rows);
+    setPendingCovariates(null);
+    saveItem(STORAGE_KEYS.covariates, rows).catch(() => {
+      /* storage unavailable; keep in memory only */
+    });
+  }
+  
+  function updateJournal(next: JournalEntry[]) {
+    setJournal(next);
+    saveItem(STORAGE_KEYS.journal, next).catch(() => {
+      /* storage unavailable; keep in memory only */
+    });
+  }
+  
+  async function resetToSample() {
+    // Import profiles are kept; they describe file layouts, not data
+    await Promise.all(
+      [
+        STORAGE_KEYS.sleepRows,
+        STORAGE_KEYS.meds,
+        STORAGE_KEYS.journal,
+        STORAGE_KEYS.covariates,
+        STORAGE_KEYS.settings,
+      ].map((key) =>
+        removeItem(key).catch(() => {
+          /* no-op */
+        })
+      )
+    );
+    applySettings(defaultSettings());
+    setJournal([]);
+    setCovariates([]);
+    setMedHistory([]);
+    const [rows, events] = await Promise.all([
+      loadBundledSleep(),
+      loadBundledMeds(),
+    ]);
+    setSleepRows(rows);
     setMeds(events);
   }
   
   useEffect(() => {
     (async () => {
-      try {
-        const res = await fetch("./medications.csv");
-        if (!res.ok) return;
-        const text = await res.text();
-        const events = parseMedsCsvText(text);
-        setMeds(events);
-      } catch {
-        /* no-op */
+      const load = <T,>(key: string) =>
+        loadItem<T>(key).catch(() => undefined);
+      const [
+        savedRows,
+        savedMeds,
+        savedJournal,
+        savedCovariates,
+        savedSettings,
+        savedProfiles,
+      ] = await Promise.all([
+        load<SleepRow[]>(STORAGE_KEYS.sleepRows),
+        load<MedEvent[]>(STORAGE_KEYS.meds),
+        load<JournalEntry[]>(STORAGE_KEYS.journal),
+        load<CovariateRow[]>(STORAGE_KEYS.covariates),
+        load<ViewSettings>(STORAGE_KEYS.settings),
+        load<ImportProfile[]>(STORAGE_KEYS.profiles),
+      ]);
+      
+      if (savedProfiles) setProfiles(savedProfiles);
+      if (savedSettings) applySettings(savedSettings);
+      setSleepRows(
+        savedRows?.map((r) => ({ ...r, date: restoreCalendarDate(r.date) })) ??
+          (await loadBundledSleep())
+      );
+      setMeds(
+        savedMeds?.map((m) => ({ ...m, date: restoreCalendarDate(m.date) })) ??
+          (await loadBundledMeds())
+      );
+      if (savedJournal) {
+        setJournal(savedJournal.map((e) => ({ ...e, date: restoreCalendarDate(e.date) })));
+      }
+      if (savedCovariates) {
+        setCovariates(
+          savedCovariates.map((r) => ({ ...r, date: restoreCalendarDate(r.date) }))
+        );
       }
+      setHydrated(true);
     })();
   }, []);
   
   useEffect(() => {
-    (async () => {
-      try {
-        const res = await fetch("./sleep_data.csv");
-        if (!res.ok) return;
-        const text = await res.text();
-        const parsed = Papa.parse(text, { header: true }).data as any[];
-        const rows: SleepRow[] = [];
-        
-        parsed.forEach((r) => {
-          const n = normalizeRow(r);
-          if (n) rows.push(n);
-        });
-        
-        setSleepRows(rows.sort((a, b) => a.date.getTime() - b.date.getTime()));
-      } catch {
-        /* no-op */
-      }
-    })();
-  }, []);
+    if (!hydrated) return;
+    const settings: ViewSettings = {
+      dateFrom,
+      dateTo,
+      rollK,
+      sortColumn,
+      sortDirection,
+      showMedLabels,
+      deltaOpts,
+      mergePolicy,
+      dayStartHour,
+      includeNaps,
+      reportPatient,
+      stageScale,
+      anomalyOpts,
+      changePointOpts,
+      showRegimes,
+      heatmapMetric,
+      chartOverlays,
+    };
+    saveItem(STORAGE_KEYS.settings, settings).catch(() => {
+      /* no-op */
+    });
+  }, [
+    hydrated,
+    dateFrom,
+    dateTo,
+    rollK,
+    sortColumn,
+    sortDirection,
+    showMedLabels,
+    deltaOpts,
+    mergePolicy,
+    dayStartHour,
+    includeNaps,
+    reportPatient,
+    stageScale,
+    anomalyOpts,
+    changePointOpts,
+    showRegimes,
+    heatmapMetric,
+    chartOverlays,
+  ]);
+  
+  // Rows are sessions: group them into sleep days (main sleep plus naps) per
+  // source, then keep one day per date when several files or devices overlap
+  const days = useMemo(
+    () => groupSleepDays(sleepRows, dayStartHour),
+    [sleepRows, dayStartHour]
+  );
+  const merged = useMemo(() => mergeNights(days, mergePolicy), [days, mergePolicy]);
+  const nights: SleepDay[] = useMemo(
+    () => (includeNaps ? merged.rows.map(withNaps) : merged.rows),
+    [merged, includeNaps]
+  );
+  const sources = useMemo(() => sourceNames(sleepRows), [sleepRows]);
   
   const filtered = useMemo(() => {
-    let rows = sleepRows;
+    let rows = nights;
     
     if (dateFrom) {
       rows = rows.filter((r) => r.date >= dateFrom);
     }
     
     if (dateTo) {
-      const to = addDays(dateTo, 1);
-      rows = rows.filter((r) => r.date < to);
+      rows = rows.filter((r) => r.date <= dateTo);
     }
     
     rows = rows.filter(
@@ -540,52 +648,149 @@ export default function App() {
     );
     
     return rows;
-  }, [sleepRows, dateFrom, dateTo, minHours, maxHours]);
+  }, [nights, dateFrom, dateTo, minHours, maxHours]);
   
-  const enriched = useMemo(() => {
-    const arr = filtered.map((r) => ({
-      ...r,
+  // Regularity compares each night with the one before, so it is computed on
+  // all loaded nights rather than the filtered subset.
+  const concordance = useMemo(() => sleepConcordance(nights), [nights]);
+  
+  function nightSri(r: SleepRow) {
+    const c = concordance.get(r.date);
+    return c ? sriScore([c]) : null;
+  }
+  
+  const jetlag = useMemo(() => socialJetlag(filtered), [filtered]);
+  
+  // Derived per-night values behind the charts, before any rolling averages
+  function nightValues(r: SleepRow) {
+    return {
       remPct: r.totalSleep ? (r.rem / r.totalSleep) * 100 : 0,
       deepPct: r.totalSleep ? (r.deep / r.totalSleep) * 100 : 0,
       corePct: r.totalSleep ? (r.core / r.totalSleep) * 100 : 0,
-    }));
+      inBed: timeInBed(r),
+      efficiency: sleepEfficiency(r),
+      bedtime: bedtimeHours(r),
+      wake: wakeHours(r),
+      midpoint: midpointHours(r),
+      sri: nightSri(r),
+    };
+  }
+  
+  const enriched = useMemo(() => {
+    const arr = filtered.map((r) => ({ ...r, ...nightValues(r) }));
     
     const remRoll = rolling(arr, rollK, (x: any) => x.remPct);
     const deepRoll = rolling(arr, rollK, (x: any) => x.deepPct);
     const totalRoll = rolling(arr, rollK, (x: any) => x.totalSleep);
     const awakeRoll = rolling(arr, rollK, (x: any) => x.awake);
+    const efficiencyRoll = rolling(arr, rollK, (x: any) => x.efficiency);
+    const bedtimeRoll = rolling(arr, rollK, (x: any) => x.bedtime);
+    const wakeRoll = rolling(arr, rollK, (x: any) => x.wake);
+    const midpointRoll = rolling(arr, rollK, (x: any) => x.midpoint);
+    const sriRoll = rolling(arr, rollK, (x: any) => x.sri);
     
     return arr.map((r, i) => ({
       ...r,
-      dateStr: r.date.toISOString().slice(0, 10),
+      dateStr: r.date,
       remRoll: remRoll[i],
       deepRoll: deepRoll[i],
       totalRoll: totalRoll[i],
       awakeRoll: awakeRoll[i],
+      efficiencyRoll: efficiencyRoll[i],
+      bedtimeRoll: bedtimeRoll[i],
+      wakeRoll: wakeRoll[i],
+      midpointRoll: midpointRoll[i],
+      sriRoll: sriRoll[i],
     }));
-  }, [filtered, rollK]);
+  }, [filtered, rollK, concordance]);
   
-  const chartData = useMemo(
+  const entries = useMemo(() => journalByDate(journal), [journal]);
+  const daily = useMemo(() => covariatesByDate(covariates), [covariates]);
+  const overlaySeries = useMemo(() => covariateSeries(covariates), [covariates]);
+  // Imported columns sit alongside the night metrics in every comparison
+  const deltaMetrics = useMemo(
+    () => [...NIGHT_METRICS, ...covariateMetrics(covariates)],
+    [covariates]
+  );
+  
+  const chartData = useMemo(() => {
+    const rows = (enriched as any).map((r: any) => ({
+      date: r.date,
+      x: calendarDateToUtc(r.date),
+      dateStr: r.dateStr,
+      source: r.source,
+      remPct: r.remPct,
+      remRoll: r.remRoll ?? null,
+      deepPct: r.deepPct,
+      deepRoll: r.deepRoll ?? null,
+      awake: r.awake,
+      awakeRoll: r.awakeRoll ?? null,
+      total: r.totalSleep,
+      totalRoll: r.totalRoll ?? null,
+      core: r.core,
+      deep: r.deep,
+      rem: r.rem,
+      inBed: isFinite(r.inBed) ? r.inBed : null,
+      efficiency: isFinite(r.efficiency) ? r.efficiency : null,
+      efficiencyRoll: r.efficiencyRoll ?? null,
+      bedtime: r.bedtime,
+      bedtimeRoll: r.bedtimeRoll ?? null,
+      wake: r.wake,
+      wakeRoll: r.wakeRoll ?? null,
+      midpoint: r.midpoint,
+      midpointRoll: r.midpointRoll ?? null,
+      sri: r.sri,
+      sriRoll: r.sriRoll ?? null,
+    }));
+    const deviations = scoreAnomalies(rows, anomalyOpts);
+    return rows.map((r: any, i: number) => ({
+      ...r,
+      deviations: deviations[i],
+      tags: entries.get(r.date)?.tags ?? [],
+      ...covariateFields(daily.get(r.date)),
+    }));
+  }, [enriched, anomalyOpts, entries, daily]);
+  
+  // Regimes are detected on the same nights the charts show
+  const segments = useMemo(
+    () => detectSegments(chartData, changePointOpts),
+    [chartData, changePointOpts]
+  );
+  const shiftMatches = useMemo(
+    () => nearestEvents(regimeShifts(segments), meds),
+    [segments, meds]
+  );
+  const regimes = (key: string) => (showRegimes ? segments.get(key) : undefined);
+  const overlayProps = (key: string) => ({
+    overlays: overlaySeries,
+    overlay: chartOverlays[key] || null,
+    onOverlayChange: (next: string | null) =>
+      setChartOverlays((o) => ({ ...o, [key]: next ?? "" })),
+  });
+  
+  // The calendar covers every loaded night so gaps and long-range patterns
+  // stay visible whatever the date filter
+  const calendarRows = useMemo(
     () =>
-      (enriched as any).map((r: any) => ({
+      nights.map((r) => ({
         date: r.date,
-        x: r.date.getTime(),
-        dateStr: r.dateStr,
-        remPct: r.remPct,
-        remRoll: r.remRoll ?? null,
-        deepPct: r.deepPct,
-        deepRoll: r.deepRoll ?? null,
-        awake: r.awake,
-        awakeRoll: r.awakeRoll ?? null,
         total: r.totalSleep,
-        totalRoll: r.totalRoll ?? null,
+        awake: r.awake,
+        ...nightValues(r),
       })),
-    [enriched]
+    [nights, concordance]
+  );
+  const heatmapSeries =
+    SERIES_METRICS.find((m) => m.key === heatmapMetric) ?? SERIES_METRICS[0];
+  
+  const chartDates = useMemo(
+    () => chartData.map((r: any) => r.dateStr as CalendarDate),
+    [chartData]
   );
   
   const monthlyData = useMemo(() => {
     // Use all sleep data for monthly summary, not filtered data
-    const groups = monthGroups(sleepRows);
+    const groups = monthGroups(nights);
     const data: MonthlyData[] = groups.map(([ym, rows]) => {
       // Filter out rows with invalid totalSleep to avoid NaN calculations
       const validRows = rows.filter((r) => r.totalSleep > 0);
@@ -601,8 +806,38 @@ export default function App() {
           : 0;
       const total = rows.reduce((s, r) => s + r.totalSleep, 0) / rows.length;
       const awake = rows.reduce((s, r) => s + r.awake, 0) / rows.length;
+      const efficiency = avgOf(rows.map(sleepEfficiency));
+      const bedtime = avgOf(rows.map(bedtimeHours));
+      const wake = avgOf(rows.map(wakeHours));
+      const midpoint = avgOf(rows.map(midpointHours));
+      const sri = sriScore(
+        rows.flatMap((r) => {
+          const c = concordance.get(r.date);
+          return c ? [c] : [];
+        })
+      );
       
-      return { month: ym, remPct, deepPct, total, awake, n: rows.length };
+      return {
+        month: ym,
+        remPct,
+        deepPct,
+        total,
+        awake,
+        efficiency,
+        bedtime,
+        wake,
+        midpoint,
+        socialJetlag: socialJetlag(rows),
+        sri,
+        n: rows.length,
+        naps: rows.reduce((s, r) => s + r.naps.length, 0),
+        covariates: Object.fromEntries(
+          covariateNames(covariates).map((name) => [
+            name,
+            avgOf(rows.map((r) => daily.get(r.date)?.[name] ?? null)),
+          ])
+        ),
+      };
     });
     
     // Sort the data
@@ -616,23 +851,115 @@ export default function App() {
         bVal = b.month;
       }
       
+      // Months without timing data sort last regardless of direction
+      if (sortColumn !== "month") {
+        const aMissing = !isFinite(aVal as number);
+        const bMissing = !isFinite(bVal as number);
+        if (aMissing || bMissing) return aMissing === bMissing ? 0 : aMissing ? 1 : -1;
+      }
+      
       if (aVal < bVal) return sortDirection === "asc" ? -1 : 1;
       if (aVal > bVal) return sortDirection === "asc" ? 1 : -1;
       return 0;
     });
-  }, [sleepRows, sortColumn, sortDirection]);
+  }, [nights, concordance, sortColumn, sortDirection, covariates, daily]);
+  
+  // Settings every exported table depends on
+  const nightParams = { dayStartHour, includeNaps, mergePolicy };
+  
+  const exportTables: { label: string; build: () => ExportTable }[] = [
+    {
+      label: "Nights (filtered)",
+      build: () => ({
+        name: "nights",
+        title: "Sleep Insights Explorer — nights in the selected range",
+        parameters: { dateFrom, dateTo, minHours, maxHours, rollK, ...nightParams },
+        columns: [
+          ...nightColumns(rollK),
+          ...covariateColumns(
+            covariateNames(covariates),
+            "Imported daily value for the date the night ends on"
+          ),
+        ],
+        rows: enriched.map((r) => ({
+          ...r,
+          naps: r.naps.length,
+          tags: entries.get(r.date)?.tags.join("; ") ?? "",
+          note: entries.get(r.date)?.note ?? "",
+          ...covariateFields(daily.get(r.date)),
+        })),
+      }),
+    },
+    {
+      label: "Monthly summary",
+      build: () => ({
+        name: "monthly-summary",
+        title: "Sleep Insights Explorer — monthly summary of all loaded nights",
+        parameters: { sortColumn, sortDirection, ...nightParams },
+        columns: [
+          ...MONTHLY_COLUMNS,
+          ...covariateColumns(covariateNames(covariates), "Mean over the month's nights"),
+        ],
+        rows: monthlyData.map((m) => ({ ...m, ...covariateFields(m.covariates) })),
+      }),
+    },
+    {
+      label: "Medication deltas",
+      build: () => ({
+        name: "medication-deltas",
+        title: "Sleep Insights Explorer — sleep before and after medication changes",
+        parameters: { ...deltaOpts, ...nightParams },
+        ...deltaTableRows(
+          deltaWindows(meds, nights, deltaOpts).sort((a, b) => compareDates(b.m, a.m)),
+          deltaMetrics
+        ),
+      }),
+    },
+    {
+      label: "Journal tag comparison",
+      build: () => ({
+        name: "journal-tags",
+        title: "Sleep Insights Explorer — nights with and without each journal tag",
+        parameters: nightParams,
+        ...tagTableRows(tagSplits(nights, journal), deltaMetrics),
+      }),
+    },
+  ];
+  
+  if (reportOpen) {
+    return (
+      <ClinicianReport
+        patient={reportPatient}
+        onPatientChange={setReportPatient}
+        from={dateFrom}
+        to={dateTo}
+        onRangeChange={(from, to) => {
+          setDateFrom(from);
+          setDateTo(to);
+        }}
+        nights={filtered}
+        allNights={nights}
+        chartData={chartData}
+        meds={meds}
+        monthly={monthlyData}
+        deltaOpts={deltaOpts}
+        rollK={rollK}
+        onClose={() => setReportOpen(false)}
+      />
+    );
+  }
   
   return (
     <div className="min-h-screen bg-white text-gray-900 p-6 space-y-6">
       <header className="flex items-center justify-between">
         <h1 className="text-2xl font-semibold">Sleep Insights Explorer</h1>
-        {/* <div className="flex items-center gap-3">
+        <div className="flex items-center gap-3">
           <label className="inline-flex items-center gap-2 px-3 py-2 rounded-2xl bg-gray-100 hover:bg-gray-200 cursor-pointer">
             <FileUp className="w-4 h-4" />
-            Import Sleep (ZIP or CSV)
+            Import Sleep (ZIP, CSV, XML or JSON)
             <input
               type="file"
-              accept=".zip,.csv"
+              accept=".zip,.csv,.xml,.json"
               className="hidden"
               onChange={onUpload}
             />
@@ -647,9 +974,124 @@ export default function App() {
               onChange={onUploadMeds}
             />
           </label>
-        </div> */}
+          <label className="inline-flex items-center gap-2 px-3 py-2 rounded-2xl bg-gray-100 hover:bg-gray-200 cursor-pointer">
+            <Activity className="w-4 h-4" />
+            Import daily data (CSV)
+            <input
+              type="file"
+              accept=".csv"
+              className="hidden"
+              onChange={onUploadCovariates}
+            />
+          </label>
+          {sleepRows.length > 0 && <ExportMenu tables={exportTables} />}
+          {sleepRows.length > 0 && (
+            <button
+              className="inline-flex items-center gap-2 px-3 py-2 rounded-2xl bg-gray-100 hover:bg-gray-200"
+              onClick={() => setReportOpen(true)}
+              title="Print-ready report for the selected date range"
+            >
+              <Printer className="w-4 h-4" />
+              Generate report
+            </button>
+          )}
+          <button
+            className="inline-flex items-center gap-2 px-3 py-2 rounded-2xl bg-gray-100 hover:bg-gray-200"
+            onClick={resetToSample}
+            title="Forget imported data and saved settings in this browser"
+          >
+            <RotateCcw className="w-4 h-4" />
+            Reset to bundled sample
+          </button>
+        </div>
       </header>
       
+      {importError && (
+        <ImportError
+          file={importError.file}
+          message={importError.message}
+          onDismiss={() => setImportError(null)}
+        />
+      )}
+      
+      {pendingSleep && (
+        <ImportPreview
+          title="Sleep import preview"
+          report={pendingSleep.report}
+          incompleteCount={pendingSleep.incomplete.size}
+          onConfirm={confirmSleepImport}
+          onMerge={
+            sleepRows.length > 0
+              ? (skip) => confirmSleepImport(skip, true)
+              : undefined
+          }
+          onCancel={() => setPendingSleep(null)}
+        >
+          {pendingSleep.appleHealth && (
+            <label className="flex items-center gap-2 text-sm">
+              Nights start at
+              <NumberField
+                className="w-20 rounded-lg border px-2 py-1"
+                value={pendingSleep.appleHealth.cutoffHour}
+                min={0}
+                max={23}
+                onCommit={regroupHealth}
+              />
+              <span className="text-xs text-gray-500">
+                :00 — sleep after this hour counts towards the next date
+              </span>
+            </label>
+          )}
+          {pendingSleep.files.length > 0 && (
+            <ColumnMapper
+              fields={SLEEP_FIELDS}
+              headers={csvHeaders(pendingSleep.files)}
+              mapping={pendingSleep.mapping}
+              profiles={profiles.filter((p) => p.kind === "sleep")}
+              onChange={remapSleep}
+              onSaveProfile={(name) =>
+                saveProfile("sleep", name, pendingSleep.mapping)
+              }
+              onDeleteProfile={(name) => deleteProfile("sleep", name)}
+            />
+          )}
+        </ImportPreview>
+      )}
+      
+      {pendingMeds && (
+        <ImportPreview
+          title="Medication import preview"
+          report={pendingMeds.report}
+          onConfirm={confirmMedsImport}
+          onCancel={() => setPendingMeds(null)}
+        >
+          {pendingMeds.files && pendingMeds.mapping && (
+            <ColumnMapper
+              fields={MED_FIELDS}
+              headers={csvHeaders(pendingMeds.files)}
+              mapping={pendingMeds.mapping}
+              profiles={profiles.filter((p) => p.kind === "meds")}
+              onChange={remapMeds}
+              onSaveProfile={(name) =>
+                saveProfile("meds", name, pendingMeds.mapping!)
+              }
+              onDeleteProfile={(name) => deleteProfile("meds", name)}
+            />
+          )}
+        </ImportPreview>
+      )}
+      
+      {pendingCovariates && (
+        <ImportPreview
+          title="Daily data import preview"
+          report={pendingCovariates.report}
+          onConfirm={() => confirmCovariatesImport(false)}
+          onMerge={covariates.length ? () => confirmCovariatesImport(true) : undefined}
+          onCancel={() => setPendingCovariates(null)}
+          duplicateNote="values are combined per date, later rows taking precedence"
+        />
+      )}
+      
       {sleepRows.length === 0 && (
         <div className="rounded-2xl border border-dashed p-8 text-center text-gray-600">
           <p className="text-lg">
@@ -671,17 +1113,17 @@ export default function App() {
       {sleepRows.length > 0 && (
         <>
           <section className="sticky top-0 z-10 bg-white/95 backdrop-blur-sm border-b border-gray-200 py-4 -mx-6 px-6 mb-6">
-              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">                
+              <div className="grid grid-cols-2 md:grid-cols-6 gap-3">                
                 <div className="p-3 rounded-2xl border">
                   <label className="text-xs text-gray-500 flex items-center gap-2">
                     <CalendarIcon className="w-4 h-4" />
                     From
                   </label>
                   <DatePickerWithPresets
-                    value={dateFrom}
-                    onChange={setDateFrom}
+                    value={dateFrom && toLocalDate(dateFrom)}
+                    onChange={(d) => setDateFrom(d && calendarDateOf(d))}
                     placeholder="Select start date"
-                    minDate={new Date("2024-01-01")}
+                    minDate={new Date(2024, 0, 1)}
                     maxDate={new Date()}
                     className="mt-1"
                   />
@@ -692,10 +1134,10 @@ export default function App() {
                     To
                   </label>
                   <DatePickerWithPresets
-                    value={dateTo}
-                    onChange={setDateTo}
+                    value={dateTo && toLocalDate(dateTo)}
+                    onChange={(d) => setDateTo(d && calendarDateOf(d))}
                     placeholder="Select end date"
-                    minDate={new Date("2024-01-01")}
+                    minDate={new Date(2024, 0, 1)}
                     maxDate={new Date()}
                     className="mt-1"
                   />
@@ -732,27 +1174,94 @@ export default function App() {
                 </div> */}
                 <div className="p-3 rounded-2xl border">
                   <label className="text-xs text-gray-500">Rolling Avg (days)</label>
-                  <input
-                    type="number"
+                  <NumberField
                     className="mt-1 w-full rounded-xl border px-3 py-2"
                     value={rollK}
                     min={1}
                     max={30}
-                    step={1}
-                    onChange={(e) => setRollK(parseInt(e.target.value || "1"))}
+                    onCommit={setRollK}
+                  />
+                </div>
+                <div className="p-3 rounded-2xl border">
+                  <label className="text-xs text-gray-500">Day Starts At (hour)</label>
+                  <NumberField
+                    className="mt-1 w-full rounded-xl border px-3 py-2"
+                    value={dayStartHour}
+                    min={0}
+                    max={23}
+                    title="Sleep starting after this hour counts towards the next date"
+                    onCommit={setDayStartHour}
                   />
                 </div>
+                <label className="p-3 rounded-2xl border flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={includeNaps}
+                    onChange={(e) => setIncludeNaps(e.target.checked)}
+                  />
+                  Include naps in totals
+                </label>
                 
               </div>            
           </section>
           
           <section className="grid gap-6">
+            {meds.length > 0 && (
+              <ChartCard
+                title="Medication Regimen"
+                subtitle="Active dose of each medication over the selected range"
+              >
+                <RegimenChart meds={meds} dates={chartDates} />
+                <label
+                  className="mt-2 flex items-center gap-2 text-xs text-gray-600"
+                  data-export="ignore"
+                >
+                  <input
+                    type="checkbox"
+                    checked={showMedLabels}
+                    onChange={(e) => setShowMedLabels(e.target.checked)}
+                  />
+                  Label medication changes on the charts below
+                </label>
+              </ChartCard>
+            )}
+            <ChartCard
+              title="Sleep Stage Composition"
+              subtitle={
+                stageScale === "hours"
+                  ? "Hours in each stage per night, with awake time on top"
+                  : "Share of each night in each stage, awake time included"
+              }
+            >
+              <StageCompositionChart
+                data={chartData}
+                meds={meds}
+                showMedLabels={showMedLabels}
+                scale={stageScale}
+              />
+              <div className="mt-2 flex gap-1 text-xs" data-export="ignore">
+                {(["hours", "percent"] as const).map((s) => (
+                  <button
+                    key={s}
+                    className={`px-2 py-1 rounded-lg ${
+                      stageScale === s ? "bg-blue-600 text-white" : "bg-gray-100 hover:bg-gray-200"
+                    }`}
+                    onClick={() => setStageScale(s)}
+                  >
+                    {s === "hours" ? "Hours" : "100%"}
+                  </button>
+                ))}
+              </div>
+            </ChartCard>
             <ChartCard title="REM % Over Time" subtitle="Includes rolling average">
               <TimeSeriesChart
                 data={chartData}
                 yKey="remPct"
                 y2Key="remRoll"
                 meds={meds}
+                showMedLabels={showMedLabels}
+                segments={regimes("remPct")}
+                {...overlayProps("remPct")}
               />
             </ChartCard>
             <ChartCard title="Deep % Over Time" subtitle="Includes rolling average">
@@ -761,6 +1270,9 @@ export default function App() {
                 yKey="deepPct"
                 y2Key="deepRoll"
                 meds={meds}
+                showMedLabels={showMedLabels}
+                segments={regimes("deepPct")}
+                {...overlayProps("deepPct")}
               />
             </ChartCard>
             <ChartCard
@@ -772,6 +1284,23 @@ export default function App() {
                 yKey="awake"
                 y2Key="awakeRoll"
                 meds={meds}
+                showMedLabels={showMedLabels}
+                segments={regimes("awake")}
+                {...overlayProps("awake")}
+              />
+            </ChartCard>
+            <ChartCard
+              title="Sleep Efficiency"
+              subtitle="Time asleep as a share of time in bed; includes rolling average"
+            >
+              <TimeSeriesChart
+                data={chartData}
+                yKey="efficiency"
+                y2Key="efficiencyRoll"
+                meds={meds}
+                showMedLabels={showMedLabels}
+                segments={regimes("efficiency")}
+                {...overlayProps("efficiency")}
               />
             </ChartCard>
             <ChartCard
@@ -783,8 +1312,150 @@ export default function App() {
                 yKey="total"
                 y2Key="totalRoll"
                 meds={meds}
+                showMedLabels={showMedLabels}
+                segments={regimes("total")}
+                {...overlayProps("total")}
+              />
+            </ChartCard>
+            <ChartCard
+              title="Bedtime"
+              subtitle="Sleep onset in the night's own time zone; includes rolling average"
+            >
+              <TimeSeriesChart
+                data={chartData}
+                yKey="bedtime"
+                y2Key="bedtimeRoll"
+                meds={meds}
+                showMedLabels={showMedLabels}
+                segments={regimes("bedtime")}
+                {...overlayProps("bedtime")}
+                format={formatClock}
+              />
+            </ChartCard>
+            <ChartCard
+              title="Wake Time"
+              subtitle="Final wake-up in the night's own time zone; includes rolling average"
+            >
+              <TimeSeriesChart
+                data={chartData}
+                yKey="wake"
+                y2Key="wakeRoll"
+                meds={meds}
+                showMedLabels={showMedLabels}
+                segments={regimes("wake")}
+                {...overlayProps("wake")}
+                format={formatClock}
               />
             </ChartCard>
+            <ChartCard
+              title="Sleep Midpoint"
+              subtitle={`Halfway between onset and wake; social jetlag (weekend − weekday midpoint) for this range: ${
+                isFinite(jetlag) ? `${jetlag >= 0 ? "+" : ""}${jetlag.toFixed(2)} hr` : "—"
+              }`}
+            >
+              <TimeSeriesChart
+                data={chartData}
+                yKey="midpoint"
+                y2Key="midpointRoll"
+                meds={meds}
+                showMedLabels={showMedLabels}
+                segments={regimes("midpoint")}
+                {...overlayProps("midpoint")}
+                format={formatClock}
+              />
+            </ChartCard>
+            <ChartCard
+              title="Sleep Regularity Index"
+              subtitle="Agreement of sleep/wake state with the previous day (100 = identical timing); includes rolling average"
+            >
+              <TimeSeriesChart
+                data={chartData}
+                yKey="sri"
+                y2Key="sriRoll"
+                meds={meds}
+                showMedLabels={showMedLabels}
+                segments={regimes("sri")}
+                {...overlayProps("sri")}
+              />
+            </ChartCard>
+          </section>
+          
+          <ChartCard
+            title={`Calendar: ${heatmapSeries.label}`}
+            subtitle="Every loaded night; click a day to show its week"
+          >
+            <select
+              className="mb-3 rounded-xl border px-3 py-2 text-sm"
+              value={heatmapSeries.key}
+              onChange={(e) => setHeatmapMetric(e.target.value)}
+              data-export="ignore"
+            >
+              {SERIES_METRICS.map((m) => (
+                <option key={m.key} value={m.key}>
+                  {m.label}
+                </option>
+              ))}
+            </select>
+            <CalendarHeatmap
+              rows={calendarRows}
+              metric={heatmapSeries}
+              meds={meds}
+              from={dateFrom}
+              to={dateTo}
+              onSelectWeek={(first) => {
+                setDateFrom(first);
+                setDateTo(addDays(first, 6));
+              }}
+            />
+          </ChartCard>
+          
+          <section className="space-y-2">
+            <h2 className="text-lg font-semibold">Unusual Nights</h2>
+            <div className="text-sm text-gray-600">
+              Nights where a metric deviates strongly from its recent baseline,
+              such as a REM spike. They are also marked with coloured dots on
+              the charts above.
+            </div>
+            <UnusualNights
+              data={chartData}
+              options={anomalyOpts}
+              onOptionsChange={setAnomalyOpts}
+            />
+          </section>
+          
+          <section className="space-y-2">
+            <h2 className="text-lg font-semibold">Regime Shifts</h2>
+            <div className="text-sm text-gray-600">
+              Points where a metric's nightly mean or variability changed and
+              stayed changed, found by binary segmentation. Each shift is
+              listed next to the closest medication change.
+            </div>
+            <RegimeShifts
+              matches={shiftMatches}
+              options={changePointOpts}
+              onOptionsChange={setChangePointOpts}
+              showOnCharts={showRegimes}
+              onShowOnChartsChange={setShowRegimes}
+            />
+          </section>
+          
+          <section className="space-y-2">
+            <h2 className="text-lg font-semibold">Day of Week</h2>
+            <div className="text-sm text-gray-600">
+              Nights in the selected range grouped by the evening they start
+              on. Differences here point to schedule rather than medication.
+            </div>
+            <WeekdayBreakdown data={chartData} />
+          </section>
+          
+          <section className="space-y-2">
+            <h2 className="text-lg font-semibold">Correlations</h2>
+            <div className="text-sm text-gray-600">
+              How two nightly measures, or a measure and a medication's dose,
+              move together in the selected range. Correlation is not
+              causation: both may follow a third factor such as schedule.
+            </div>
+            <CorrelationExplorer data={chartData} meds={meds} />
           </section>
           
           <section className="space-y-3">
@@ -838,6 +1509,60 @@ export default function App() {
                     >
                       Awake (hr)
                     </SortableHeader>
+                    <SortableHeader
+                      column="efficiency"
+                      currentSort={sortColumn}
+                      direction={sortDirection}
+                      onSort={handleSort}
+                      align="right"
+                    >
+                      Efficiency %
+                    </SortableHeader>
+                    <SortableHeader
+                      column="bedtime"
+                      currentSort={sortColumn}
+                      direction={sortDirection}
+                      onSort={handleSort}
+                      align="right"
+                    >
+                      Bedtime
+                    </SortableHeader>
+                    <SortableHeader
+                      column="wake"
+                      currentSort={sortColumn}
+                      direction={sortDirection}
+                      onSort={handleSort}
+                      align="right"
+                    >
+                      Wake
+                    </SortableHeader>
+                    <SortableHeader
+                      column="midpoint"
+                      currentSort={sortColumn}
+                      direction={sortDirection}
+                      onSort={handleSort}
+                      align="right"
+                    >
+                      Midpoint
+                    </SortableHeader>
+                    <SortableHeader
+                      column="socialJetlag"
+                      currentSort={sortColumn}
+                      direction={sortDirection}
+                      onSort={handleSort}
+                      align="right"
+                    >
+                      Social jetlag (hr)
+                    </SortableHeader>
+                    <SortableHeader
+                      column="sri"
+                      currentSort={sortColumn}
+                      direction={sortDirection}
+                      onSort={handleSort}
+                      align="right"
+                    >
+                      SRI
+                    </SortableHeader>
                     <SortableHeader
                       column="n"
                       currentSort={sortColumn}
@@ -847,6 +1572,20 @@ export default function App() {
                     >
                       Nights tracked
                     </SortableHeader>
+                    <SortableHeader
+                      column="naps"
+                      currentSort={sortColumn}
+                      direction={sortDirection}
+                      onSort={handleSort}
+                      align="right"
+                    >
+                      Naps
+                    </SortableHeader>
+                    {overlaySeries.map((c) => (
+                      <th key={c.key} className="px-3 py-2 text-right">
+                        {c.label}
+                      </th>
+                    ))}
                   </tr>
                 </thead>
                 <tbody>
@@ -865,7 +1604,36 @@ export default function App() {
                       <td className="px-3 py-2 text-right">
                         {isFinite(data.awake) ? data.awake.toFixed(2) : "—"}
                       </td>
+                      <td className="px-3 py-2 text-right">
+                        {isFinite(data.efficiency) ? data.efficiency.toFixed(1) : "—"}
+                      </td>
+                      <td className="px-3 py-2 text-right">
+                        {formatClock(data.bedtime)}
+                      </td>
+                      <td className="px-3 py-2 text-right">
+                        {formatClock(data.wake)}
+                      </td>
+                      <td className="px-3 py-2 text-right">
+                        {formatClock(data.midpoint)}
+                      </td>
+                      <td className="px-3 py-2 text-right">
+                        {isFinite(data.socialJetlag)
+                          ? data.socialJetlag.toFixed(2)
+                          : "—"}
+                      </td>
+                      <td className="px-3 py-2 text-right">
+                        {isFinite(data.sri) ? data.sri.toFixed(0) : "—"}
+                      </td>
                       <td className="px-3 py-2 text-right">{data.n}</td>
+                      <td className="px-3 py-2 text-right">{data.naps}</td>
+                      {overlaySeries.map((c) => {
+                        const v = data.covariates[c.label];
+                        return (
+                          <td key={c.key} className="px-3 py-2 text-right">
+                            {isFinite(v) ? c.format(v) : "—"}
+                          </td>
+                        );
+                      })}
                     </tr>
                   ))}
                 </tbody>
@@ -873,17 +1641,119 @@ export default function App() {
             </div>
           </section>
           
+          <section className="space-y-2">
+            <h2 className="text-lg font-semibold">Medication Log</h2>
+            <div className="text-sm text-gray-600">
+              Add, correct or remove medication changes here instead of editing
+              the CSV. Edits are saved straight away and every chart and table
+              updates; the download uses the same columns as the medications
+              CSV import.
+            </div>
+            <MedLogEditor
+              meds={meds}
+              onChange={editMeds}
+              onUndo={undoMedEdit}
+              canUndo={medHistory.length > 0}
+            />
+          </section>
+          
           {meds.length > 0 && (
             <section className="space-y-2">
               <h2 className="text-lg font-semibold">
-                Medication Change Deltas (30 days after − 30 days before)
+                Medication Change Deltas ({deltaOpts.postDays} days after
+                {deltaOpts.lagDays > 0 ? ` a ${deltaOpts.lagDays}-day washout` : ""}{" "}
+                − {deltaOpts.preDays} days before)
               </h2>
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+                {(
+                  [
+                    ["preDays", "Days before", 1],
+                    ["postDays", "Days after", 1],
+                    ["lagDays", "Washout (days)", 0],
+                    ["minNights", "Min nights", 1],
+                  ] as const
+                ).map(([key, label, min]) => (
+                  <div key={key} className="p-3 rounded-2xl border">
+                    <label className="text-xs text-gray-500">{label}</label>
+                    <NumberField
+                      className="mt-1 w-full rounded-xl border px-3 py-2"
+                      value={deltaOpts[key]}
+                      min={min}
+                      max={180}
+                      onCommit={(v) => setDeltaOpt(key, v)}
+                    />
+                  </div>
+                ))}
+                <label className="p-3 rounded-2xl border flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={deltaOpts.clipAtNeighbors}
+                    onChange={(e) => setDeltaOpt("clipAtNeighbors", e.target.checked)}
+                  />
+                  Cut windows at neighbouring changes
+                </label>
+              </div>
               <div className="text-sm text-gray-600">
-                Hover vertical lines in the charts to see event labels.
+                Dashed vertical lines in the charts mark these changes. Each
+                delta shows its 95% confidence interval and Welch t-test
+                p-value; greyed values marked "ns" are not significant at
+                p &lt; 0.05.
               </div>
-              <MedDeltaTable meds={meds} data={sleepRows} />
+              <MedDeltaTable
+                meds={meds}
+                data={nights}
+                windows={deltaOpts}
+                metrics={deltaMetrics}
+              />
             </section>
           )}
+          
+          {meds.length > 0 && (
+            <section className="space-y-2">
+              <h2 className="text-lg font-semibold">Dose–Response</h2>
+              <div className="text-sm text-gray-600">
+                Each night in the selected range plotted against that night's
+                active dose.
+              </div>
+              <DoseResponse meds={meds} rows={filtered} />
+            </section>
+          )}
+          
+          <section className="space-y-3">
+            <h2 className="text-lg font-semibold">Journal</h2>
+            <div className="text-sm text-gray-600">
+              Tag nights with anything that might affect sleep besides
+              medication. Tagged nights are ringed in amber on the charts.
+            </div>
+            <JournalEditor
+              journal={journal}
+              dates={nights.map((r) => r.date)}
+              onChange={updateJournal}
+            />
+            <div className="text-sm text-gray-600">
+              Every loaded night with a tag against all nights without it.
+              Each delta is tagged minus untagged, with its 95% confidence
+              interval, Welch t-test p-value and the two means; greyed values
+              marked "ns" are not significant at p &lt; 0.05.
+            </div>
+            <TagComparison data={nights} journal={journal} metrics={deltaMetrics} />
+          </section>
+          
+          <section className="space-y-2">
+            <h2 className="text-lg font-semibold">Data Sources</h2>
+            <div className="text-sm text-gray-600">
+              {sources.length} source{sources.length === 1 ? "" : "s"} ({sources.join(", ")}).{" "}
+              {merged.conflicts.length} night
+              {merged.conflicts.length === 1 ? " was" : "s were"} recorded more
+              than once; one row per night is used throughout.
+            </div>
+            <SourceMerge
+              sources={sources}
+              policy={mergePolicy}
+              conflicts={merged.conflicts}
+              onChange={setMergePolicy}
+            />
+          </section>
         </>
       )}
       
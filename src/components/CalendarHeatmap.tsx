@@ -0,0 +1,248 @@
+import React, { useMemo } from "react";
+import { heatColor, scaleUnit } from "../lib/colorScale";
+import { addDays, dayOfWeek, daysBetween, parseCalendarDate } from "../lib/dates";
+import type { SeriesMetric } from "../lib/metrics";
+import type { CalendarDate, MedEvent } from "../lib/types";
+
+const CELL = 11;
+const GAP = 2;
+const STEP = CELL + GAP;
+const LEFT = 28;
+const TOP = 14;
+const MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+/** Labelled rows, Monday first; a row is the evening a night starts on. */
+const ROW_LABELS: [number, string][] = [
+  [0, "Mon"],
+  [2, "Wed"],
+  [4, "Fri"],
+];
+
+/**
+ * Nights are dated by the morning they end but drawn on the evening they
+ * start, so the "Fri" row is Friday night, as in the weekday breakdown.
+ */
+const eveningOf = (night: CalendarDate) => addDays(night, -1);
+
+/** Row of a date in a Monday-first week. */
+const rowOf = (d: CalendarDate) => (dayOfWeek(d) + 6) % 7;
+
+/** Monday of the week `d` falls in. */
+export function weekStart(d: CalendarDate) {
+  return addDays(d, -rowOf(d));
+}
+
+/** Diagonal hatching for nights with no data. */
+function Hatch({ id }: { id: string }) {
+  return (
+    <defs>
+      <pattern id={id} width={4} height={4} patternUnits="userSpaceOnUse" patternTransform="rotate(45)">
+        <rect width={4} height={4} fill="#f9fafb" />
+        <line x1={0} y1={0} x2={0} y2={4} stroke="#d1d5db" strokeWidth={1.5} />
+      </pattern>
+    </defs>
+  );
+}
+
+/** Value at the given quantile of sorted values (linear interpolation). */
+function quantile(sorted: number[], q: number) {
+  if (!sorted.length) return NaN;
+  const pos = (sorted.length - 1) * q;
+  const lo = Math.floor(pos);
+  const hi = Math.ceil(pos);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+}
+
+function YearStrip({
+  year,
+  values,
+  medsByDate,
+  lo,
+  hi,
+  metric,
+  span,
+  from,
+  to,
+  onSelectWeek,
+}: {
+  year: number;
+  /** Values by the evening each night starts on. */
+  values: Map<CalendarDate, number>;
+  medsByDate: Map<CalendarDate, MedEvent[]>;
+  lo: number;
+  hi: number;
+  metric: SeriesMetric;
+  /** Evenings of the first and last loaded nights; days outside them are left blank rather than hatched. */
+  span: [CalendarDate, CalendarDate];
+  from: CalendarDate | null;
+  to: CalendarDate | null;
+  onSelectWeek: (first: CalendarDate) => void;
+}) {
+  const hatch = `heatmap-missing-${year}`;
+  const jan1 = parseCalendarDate(`${year}-01-01`)!;
+  const first = weekStart(jan1);
+  const days: CalendarDate[] = [];
+  for (let d = jan1; d.startsWith(String(year)); d = addDays(d, 1)) days.push(d);
+
+  const colOf = (d: CalendarDate) => Math.floor(daysBetween(first, d) / 7);
+  const weeks = colOf(days[days.length - 1]) + 1;
+  const width = LEFT + weeks * STEP;
+  const height = TOP + 7 * STEP;
+
+  return (
+    <div>
+      <div className="text-xs font-medium text-gray-600">{year}</div>
+      <svg width={width} height={height} className="block">
+        <Hatch id={hatch} />
+        {MONTHS.map((m, i) => {
+          const d = parseCalendarDate(`${year}-${String(i + 1).padStart(2, "0")}-01`)!;
+          return (
+            <text key={m} x={LEFT + colOf(d) * STEP} y={TOP - 4} fontSize={9} fill="#6b7280">
+              {m}
+            </text>
+          );
+        })}
+        {ROW_LABELS.map(([row, label]) => (
+          <text key={label} x={0} y={TOP + row * STEP + CELL - 2} fontSize={9} fill="#6b7280">
+            {label}
+          </text>
+        ))}
+        {days.map((d) => {
+          const v = values.get(d);
+          const events = medsByDate.get(d);
+          const morning = addDays(d, 1);
+          const inRange = (!from || morning >= from) && (!to || morning <= to);
+          const has = v !== undefined && isFinite(v);
+          const loaded = d >= span[0] && d <= span[1];
+          return (
+            <rect
+              key={d}
+              x={LEFT + colOf(d) * STEP}
+              y={TOP + rowOf(d) * STEP}
+              width={CELL}
+              height={CELL}
+              rx={2}
+              fill={
+                has ? heatColor(scaleUnit(v, lo, hi)).background : loaded ? `url(#${hatch})` : "#f3f4f6"
+              }
+              opacity={inRange ? 1 : 0.35}
+              stroke={events ? "#111827" : "none"}
+              strokeWidth={events ? 1.5 : 0}
+              className="cursor-pointer"
+              onClick={() => onSelectWeek(addDays(weekStart(d), 1))}
+            >
+              <title>
+                {`Night of ${d} (ending ${morning}): ${has ? metric.format(v) : "no data"}`}
+                {events ? `\n${events.map((e) => e.label).join("\n")}` : ""}
+              </title>
+            </rect>
+          );
+        })}
+      </svg>
+    </div>
+  );
+}
+
+/**
+ * GitHub-style calendar of one metric: one cell per night, on the evening
+ * it starts, and a strip of months per year. Nights without data are hatched
+ * and medication event days outlined; clicking a cell selects that week.
+ */
+export function CalendarHeatmap({
+  rows,
+  metric,
+  meds,
+  from,
+  to,
+  onSelectWeek,
+}: {
+  /** Rows keyed by `date` with the metric's value under `metric.key`. */
+  rows: any[];
+  metric: SeriesMetric;
+  meds: MedEvent[];
+  /** The current date filter; nights outside it are faded. */
+  from: CalendarDate | null;
+  to: CalendarDate | null;
+  /** Called with the date of the first night (Monday night) of the clicked week. */
+  onSelectWeek: (first: CalendarDate) => void;
+}) {
+  const values = useMemo(() => {
+    const out = new Map<CalendarDate, number>();
+    rows.forEach((r) => {
+      const v = r[metric.key];
+      if (typeof v === "number" && isFinite(v)) out.set(eveningOf(r.date), v);
+    });
+    return out;
+  }, [rows, metric]);
+
+  const medsByDate = useMemo(() => {
+    const out = new Map<CalendarDate, MedEvent[]>();
+    meds.forEach((m) => {
+      if (!out.has(m.date)) out.set(m.date, []);
+      out.get(m.date)!.push(m);
+    });
+    return out;
+  }, [meds]);
+
+  // The 2nd–98th percentile spans the colour scale, so one extreme night
+  // does not wash out the rest
+  const sorted = Array.from(values.values()).sort((a, b) => a - b);
+  const lo = quantile(sorted, 0.02);
+  const hi = quantile(sorted, 0.98);
+
+  const dates = rows.map((r) => eveningOf(r.date)).sort();
+  if (!dates.length) {
+    return <div className="text-sm text-gray-600">No nights loaded.</div>;
+  }
+  const years: number[] = [];
+  for (let y = Number(dates[0].slice(0, 4)); y <= Number(dates[dates.length - 1].slice(0, 4)); y++) {
+    years.push(y);
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="overflow-auto space-y-3">
+        {years.map((y) => (
+          <YearStrip
+            key={y}
+            year={y}
+            values={values}
+            medsByDate={medsByDate}
+            lo={lo}
+            hi={hi}
+            metric={metric}
+            span={[dates[0], dates[dates.length - 1]]}
+            from={from}
+            to={to}
+            onSelectWeek={onSelectWeek}
+          />
+        ))}
+      </div>
+      <div className="flex flex-wrap items-center gap-4 text-xs text-gray-600">
+        <span className="flex items-center gap-1">
+          {isFinite(lo) ? metric.format(lo) : "—"}
+          <span
+            className="inline-block h-3 w-24 rounded"
+            style={{
+              background: `linear-gradient(to right, ${heatColor(0).background}, ${heatColor(1).background})`,
+            }}
+          />
+          {isFinite(hi) ? metric.format(hi) : "—"}
+        </span>
+        <span className="flex items-center gap-1">
+          <svg width={CELL} height={CELL}>
+            <Hatch id="heatmap-missing-legend" />
+            <rect width={CELL} height={CELL} rx={2} fill="url(#heatmap-missing-legend)" />
+          </svg>
+          no data
+        </span>
+        <span className="flex items-center gap-1">
+          <svg width={CELL} height={CELL}>
+            <rect x={1} y={1} width={CELL - 2} height={CELL - 2} rx={2} fill="#ffffff" stroke="#111827" strokeWidth={1.5} />
+          </svg>
+          medication change
+        </span>
+        <span>Faded: outside the selected range</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+import React, { createContext, useRef, useState } from "react";
+import { AlertTriangle, ImageDown, X } from "lucide-react";
+import { renderChartSvg, slugify, svgToPng } from "../lib/chartImage";
+import { downloadBlob, downloadText } from "../lib/exporters";
+
+/**
+ * True while a chart card is being captured, so charts inside can show
+ * everything the image needs (e.g. medication labels) and skip animation.
+ */
+export const ChartExportContext = createContext(false);
+
+const SCALES = [1, 2, 3, 4];
+
+const nextFrame = () =>
+  new Promise<void>((resolve) => requestAnimationFrame(() => requestAnimationFrame(() => resolve())));
+
+export function ChartCard({
+  title,
+  subtitle,
+  children,
+}: {
+  title: string;
+  subtitle?: string;
+  children: React.ReactNode;
+}) {
+  const body = useRef<HTMLDivElement>(null);
+  const [exporting, setExporting] = useState(false);
+  const [menuOpen, setMenuOpen] = useState(false);
+  const [scale, setScale] = useState(2);
+  const [error, setError] = useState<string | null>(null);
+
+  async function download(format: "svg" | "png") {
+    setMenuOpen(false);
+    setError(null);
+    setExporting(true);
+    await nextFrame();
+    try {
+      if (!body.current) return;
+      const image = renderChartSvg(body.current, { title, subtitle });
+      const name = slugify(title);
+      if (format === "svg") downloadText(`${name}.svg`, image.svg, "image/svg+xml");
+      else downloadBlob(`${name}@${scale}x.png`, await svgToPng(image, scale));
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setExporting(false);
+    }
+  }
+
+  return (
+    <div className="rounded-2xl border p-4">
+      <div className="mb-2 flex items-start justify-between gap-2">
+        <div>
+          <h3 className="font-medium">{title}</h3>
+          {subtitle && <div className="text-xs text-gray-500">{subtitle}</div>}
+        </div>
+        <div className="relative print:hidden">
+          <button
+            className="p-1 rounded-lg text-gray-400 hover:text-gray-700 hover:bg-gray-100"
+            title="Download chart image"
+            onClick={() => setMenuOpen((o) => !o)}
+          >
+            <ImageDown className="w-4 h-4" />
+          </button>
+          {menuOpen && (
+            <div className="absolute right-0 z-20 mt-1 w-44 rounded-xl border bg-white p-2 shadow-lg space-y-2 text-sm">
+              <button
+                className="w-full text-left px-2 py-1 rounded-lg hover:bg-gray-100"
+                onClick={() => download("svg")}
+              >
+                SVG (vector)
+              </button>
+              <div className="flex items-center gap-2 px-2">
+                <button
+                  className="flex-1 text-left py-1 rounded-lg hover:bg-gray-100"
+                  onClick={() => download("png")}
+                >
+                  PNG
+                </button>
+                <select
+                  className="rounded-lg border px-1 py-0.5 text-xs"
+                  value={scale}
+                  onChange={(e) => setScale(Number(e.target.value))}
+                  title="Resolution"
+                >
+                  {SCALES.map((s) => (
+                    <option key={s} value={s}>
+                      {s}×
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+      {error && (
+        <div className="mb-2 flex items-start gap-1 text-xs text-amber-700 print:hidden">
+          <AlertTriangle className="w-3 h-3 mt-0.5 shrink-0" />
+          <span className="flex-1">Chart export failed: {error}</span>
+          <button className="text-gray-400 hover:text-gray-700" title="Dismiss" onClick={() => setError(null)}>
+            <X className="w-3 h-3" />
+          </button>
+        </div>
+      )}
+      <div ref={body}>
+        <ChartExportContext.Provider value={exporting}>{children}</ChartExportContext.Provider>
+      </div>
+    </div>
+  );
+}
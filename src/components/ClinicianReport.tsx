@@ -0,0 +1,260 @@
+import React, { useMemo } from "react";
+import { Printer, X } from "lucide-react";
+import { RegimenChart } from "./RegimenChart";
+import { TimeSeriesChart } from "./TimeSeriesChart";
+import { MedDeltaTable } from "./MedDeltaTable";
+import { parseCalendarDate, today } from "../lib/dates";
+import { deltaWindows, type DeltaWindowOptions } from "../lib/deltas";
+import { sourceNames } from "../lib/merge";
+import { activeDoses } from "../lib/regimen";
+import { reportSummary } from "../lib/report";
+import { formatClock } from "../lib/timing";
+import type { CalendarDate, MedEvent, MonthlyData, SleepDay } from "../lib/types";
+
+const CHARTS = [
+  { title: "REM %", yKey: "remPct", y2Key: "remRoll" },
+  { title: "Deep %", yKey: "deepPct", y2Key: "deepRoll" },
+  { title: "Total sleep (hours)", yKey: "total", y2Key: "totalRoll" },
+  { title: "Awake (hours)", yKey: "awake", y2Key: "awakeRoll" },
+  { title: "Sleep efficiency (%)", yKey: "efficiency", y2Key: "efficiencyRoll" },
+];
+
+const num = (v: number, digits = 2) => (isFinite(v) ? v.toFixed(digits) : "—");
+
+function Section({
+  title,
+  pageBreak = false,
+  children,
+}: {
+  title: string;
+  pageBreak?: boolean;
+  children: React.ReactNode;
+}) {
+  return (
+    <section className={`space-y-2 ${pageBreak ? "break-before-page" : ""}`}>
+      <h2 className="text-base font-semibold border-b pb-1">{title}</h2>
+      {children}
+    </section>
+  );
+}
+
+/**
+ * Print-ready summary for a clinician: fixed A4-width layout with page
+ * breaks between sections, printed (or saved as PDF) from the browser.
+ */
+export function ClinicianReport({
+  patient,
+  onPatientChange,
+  from,
+  to,
+  onRangeChange,
+  nights,
+  allNights,
+  chartData,
+  meds,
+  monthly,
+  deltaOpts,
+  rollK,
+  onClose,
+}: {
+  patient: string;
+  onPatientChange: (name: string) => void;
+  from: CalendarDate | null;
+  to: CalendarDate | null;
+  onRangeChange: (from: CalendarDate | null, to: CalendarDate | null) => void;
+  /** Nights in the report period. */
+  nights: SleepDay[];
+  /** Every loaded night, so delta windows can reach outside the period. */
+  allNights: SleepDay[];
+  chartData: any[];
+  meds: MedEvent[];
+  monthly: MonthlyData[];
+  deltaOpts: DeltaWindowOptions;
+  rollK: number;
+  onClose: () => void;
+}) {
+  const first = nights[0]?.date;
+  const last = nights[nights.length - 1]?.date;
+  const periodEnd = to ?? last ?? today();
+
+  const periodMeds = useMemo(
+    () => meds.filter((m) => (!from || m.date >= from) && m.date <= periodEnd),
+    [meds, from, periodEnd]
+  );
+  const windows = useMemo(
+    () => deltaWindows(periodMeds, allNights, deltaOpts),
+    [periodMeds, allNights, deltaOpts]
+  );
+  const summary = useMemo(() => reportSummary(nights, windows), [nights, windows]);
+  const regimen = Array.from(activeDoses(meds, periodEnd).entries());
+  const dates = useMemo(() => chartData.map((r) => r.dateStr as CalendarDate), [chartData]);
+  const months = monthly
+    .filter((m) => (!first || m.month >= first.slice(0, 7)) && (!last || m.month <= last.slice(0, 7)))
+    .sort((a, b) => (a.month < b.month ? -1 : 1));
+
+  const inputClass = "rounded-lg border px-2 py-1 text-sm";
+
+  return (
+    <div className="min-h-screen bg-gray-100 print:bg-white">
+      <div className="sticky top-0 z-10 flex flex-wrap items-center gap-3 border-b bg-white px-6 py-3 text-sm print:hidden">
+        <span className="font-semibold">Clinician report</span>
+        <input
+          className={inputClass}
+          placeholder="Patient name"
+          value={patient}
+          onChange={(e) => onPatientChange(e.target.value)}
+        />
+        <label className="flex items-center gap-1">
+          From
+          <input
+            type="date"
+            className={inputClass}
+            value={from ?? ""}
+            onChange={(e) => onRangeChange(parseCalendarDate(e.target.value), to)}
+          />
+        </label>
+        <label className="flex items-center gap-1">
+          To
+          <input
+            type="date"
+            className={inputClass}
+            value={to ?? ""}
+            onChange={(e) => onRangeChange(from, parseCalendarDate(e.target.value))}
+          />
+        </label>
+        <div className="ml-auto flex gap-2">
+          <button
+            className="inline-flex items-center gap-2 px-3 py-2 rounded-2xl bg-blue-600 hover:bg-blue-700 text-white"
+            onClick={() => window.print()}
+          >
+            <Printer className="w-4 h-4" />
+            Print / save as PDF
+          </button>
+          <button
+            className="inline-flex items-center gap-2 px-3 py-2 rounded-2xl bg-gray-100 hover:bg-gray-200"
+            onClick={onClose}
+          >
+            <X className="w-4 h-4" />
+            Close
+          </button>
+        </div>
+      </div>
+
+      <article className="mx-auto my-6 w-[190mm] space-y-6 bg-white p-8 text-gray-900 shadow print:m-0 print:p-0 print:shadow-none">
+        <header className="flex items-start justify-between border-b-2 pb-3">
+          <div>
+            <h1 className="text-xl font-semibold">Sleep and Medication Report</h1>
+            <div className="text-sm">
+              Patient: <span className="font-medium">{patient || "—"}</span>
+            </div>
+          </div>
+          <div className="text-right text-xs text-gray-600">
+            <div>
+              Period: {from ?? first ?? "—"} to {to ?? last ?? "—"}
+            </div>
+            <div>{nights.length} nights · {sourceNames(nights).join(", ")}</div>
+            <div>Generated {today()}</div>
+          </div>
+        </header>
+
+        <Section title="Summary">
+          <ul className="list-disc pl-5 text-sm space-y-1">
+            {summary.map((s) => (
+              <li key={s}>{s}</li>
+            ))}
+          </ul>
+        </Section>
+
+        <Section title={`Current regimen (as of ${periodEnd})`}>
+          {regimen.length === 0 ? (
+            <div className="text-sm text-gray-600">No active medications.</div>
+          ) : (
+            <table className="text-sm">
+              <tbody>
+                {regimen.map(([name, dose]) => (
+                  <tr key={name} className="border-t">
+                    <td className="px-3 py-1">{name}</td>
+                    <td className="px-3 py-1 text-right">{dose > 0 ? `${dose} mg` : "dose not recorded"}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </Section>
+
+        {meds.length > 0 && (
+          <Section title="Medication timeline">
+            <div className="break-inside-avoid">
+              <RegimenChart meds={meds} dates={dates} />
+            </div>
+          </Section>
+        )}
+
+        <Section title="Nightly trends" pageBreak>
+          <div className="text-xs text-gray-500">
+            Blue: nightly value. Dark line: {rollK}-night rolling average. Dashed
+            lines: medication changes.
+          </div>
+          {CHARTS.map((c) => (
+            <div key={c.yKey} className="break-inside-avoid">
+              <div className="text-sm font-medium">{c.title}</div>
+              <TimeSeriesChart data={chartData} yKey={c.yKey} y2Key={c.y2Key} meds={periodMeds} compact />
+            </div>
+          ))}
+        </Section>
+
+        <Section title="Monthly summary" pageBreak>
+          <table className="min-w-full text-xs">
+            <thead className="bg-gray-50 text-gray-600">
+              <tr>
+                <th className="px-2 py-1 text-left">Month</th>
+                <th className="px-2 py-1 text-right">REM %</th>
+                <th className="px-2 py-1 text-right">Deep %</th>
+                <th className="px-2 py-1 text-right">Total (h)</th>
+                <th className="px-2 py-1 text-right">Awake (h)</th>
+                <th className="px-2 py-1 text-right">Efficiency %</th>
+                <th className="px-2 py-1 text-right">Bedtime</th>
+                <th className="px-2 py-1 text-right">Wake</th>
+                <th className="px-2 py-1 text-right">SRI</th>
+                <th className="px-2 py-1 text-right">Nights</th>
+                <th className="px-2 py-1 text-right">Naps</th>
+              </tr>
+            </thead>
+            <tbody>
+              {months.map((m) => (
+                <tr key={m.month} className="border-t">
+                  <td className="px-2 py-1">{m.month}</td>
+                  <td className="px-2 py-1 text-right">{num(m.remPct)}</td>
+                  <td className="px-2 py-1 text-right">{num(m.deepPct)}</td>
+                  <td className="px-2 py-1 text-right">{num(m.total)}</td>
+                  <td className="px-2 py-1 text-right">{num(m.awake)}</td>
+                  <td className="px-2 py-1 text-right">{num(m.efficiency, 1)}</td>
+                  <td className="px-2 py-1 text-right">{formatClock(m.bedtime)}</td>
+                  <td className="px-2 py-1 text-right">{formatClock(m.wake)}</td>
+                  <td className="px-2 py-1 text-right">{num(m.sri, 0)}</td>
+                  <td className="px-2 py-1 text-right">{m.n}</td>
+                  <td className="px-2 py-1 text-right">{m.naps}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div className="text-xs text-gray-500">
+            Whole calendar months overlapping the period.
+          </div>
+        </Section>
+
+        {periodMeds.length > 0 && (
+          <Section title="Medication change deltas">
+            <div className="text-xs text-gray-500">
+              {deltaOpts.postDays} nights after
+              {deltaOpts.lagDays > 0 ? ` a ${deltaOpts.lagDays}-day washout` : ""} minus{" "}
+              {deltaOpts.preDays} nights before each change, with 95% confidence
+              interval and Welch t-test p-value; "ns" is not significant.
+            </div>
+            <MedDeltaTable meds={periodMeds} data={allNights} windows={deltaOpts} />
+          </Section>
+        )}
+      </article>
+    </div>
+  );
+}
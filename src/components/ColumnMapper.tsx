@@ -0,0 +1,138 @@
+import React, { useState } from "react";
+import { Save, Trash2 } from "lucide-react";
+import type {
+  ColumnMapping,
+  DurationUnit,
+  MappableField,
+} from "../lib/importers";
+import { sameMapping, type ImportProfile } from "../lib/profiles";
+
+const UNITS: DurationUnit[] = ["hours", "minutes", "seconds"];
+
+/**
+ * Lets the user assign each detected header to a field (and a unit for
+ * durations), and save or reuse the result as a named import profile.
+ */
+export function ColumnMapper({
+  fields,
+  headers,
+  mapping,
+  profiles,
+  onChange,
+  onSaveProfile,
+  onDeleteProfile,
+}: {
+  fields: MappableField[];
+  headers: string[];
+  mapping: ColumnMapping;
+  /** Saved profiles of this import kind. */
+  profiles: ImportProfile[];
+  onChange: (mapping: ColumnMapping) => void;
+  onSaveProfile: (name: string) => void;
+  onDeleteProfile: (name: string) => void;
+}) {
+  const active = profiles.find((p) => sameMapping(p.mapping, mapping));
+  const [name, setName] = useState(active?.name ?? "");
+
+  const setField = (field: string, patch: Partial<ColumnMapping[string]>) =>
+    onChange({ ...mapping, [field]: { ...(mapping[field] ?? { column: null }), ...patch } });
+
+  const selectClass = "rounded-lg border px-2 py-1 text-xs bg-white";
+
+  return (
+    <div className="text-sm space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="font-medium">Column mapping</div>
+        {profiles.length > 0 && (
+          <select
+            className={selectClass}
+            value={active?.name ?? ""}
+            onChange={(e) => {
+              const p = profiles.find((x) => x.name === e.target.value);
+              if (p) {
+                onChange(p.mapping);
+                setName(p.name);
+              }
+            }}
+          >
+            <option value="" disabled>
+              {active ? active.name : "Apply saved profile…"}
+            </option>
+            {profiles.map((p) => (
+              <option key={p.name} value={p.name}>
+                {p.name}
+              </option>
+            ))}
+          </select>
+        )}
+        {active && (
+          <span className="text-xs text-gray-500">
+            Using profile "{active.name}"
+            <button
+              className="ml-1 align-middle text-gray-400 hover:text-red-600"
+              title="Delete this profile"
+              onClick={() => onDeleteProfile(active.name)}
+            >
+              <Trash2 className="inline w-3 h-3" />
+            </button>
+          </span>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-1">
+        {fields.map((f) => (
+          <div key={f.field} className="flex items-center gap-2">
+            <div className="w-24 shrink-0 text-xs text-gray-600">{f.label}</div>
+            <select
+              className={`${selectClass} flex-1 min-w-0`}
+              value={mapping[f.field]?.column ?? ""}
+              onChange={(e) => setField(f.field, { column: e.target.value || null })}
+            >
+              <option value="">— not in file —</option>
+              {headers.map((h) => (
+                <option key={h} value={h}>
+                  {h}
+                </option>
+              ))}
+            </select>
+            {f.duration && (
+              <select
+                className={selectClass}
+                value={mapping[f.field]?.unit ?? "hours"}
+                onChange={(e) =>
+                  setField(f.field, { unit: e.target.value as DurationUnit })
+                }
+              >
+                {UNITS.map((u) => (
+                  <option key={u} value={u}>
+                    {u}
+                  </option>
+                ))}
+              </select>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-2">
+        <input
+          className="rounded-lg border px-2 py-1 text-xs"
+          placeholder="Profile name, e.g. AutoSleep"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+        />
+        <button
+          className="inline-flex items-center gap-1 px-2 py-1 rounded-lg bg-gray-100 hover:bg-gray-200 text-xs disabled:opacity-50"
+          disabled={!name.trim()}
+          onClick={() => onSaveProfile(name.trim())}
+        >
+          <Save className="w-3 h-3" />
+          Save profile
+        </button>
+        <span className="text-xs text-gray-500">
+          Saved profiles are applied automatically to files with matching columns.
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,238 @@
+import React, { useMemo, useState } from "react";
+import {
+  ScatterChart,
+  Scatter,
+  BarChart,
+  Bar,
+  Cell,
+  XAxis,
+  YAxis,
+  ZAxis,
+  CartesianGrid,
+  Tooltip,
+  ReferenceLine,
+  ResponsiveContainer,
+} from "recharts";
+import { divergingColor } from "../lib/colorScale";
+import {
+  correlate,
+  correlationMatrix,
+  lagCorrelations,
+  nightVariables,
+  pairedValues,
+} from "../lib/correlation";
+import { formatP, linearFit } from "../lib/stats";
+import type { CalendarDate, MedEvent } from "../lib/types";
+
+const MAX_LAG = 14;
+
+const rText = (v: number) => (isFinite(v) ? v.toFixed(2) : "—");
+
+/**
+ * Scatter, lag profile and correlation matrix for the nights in the current
+ * range. Any nightly metric or medication dose can be set against another,
+ * optionally with the second one taken a number of nights later.
+ */
+export function CorrelationExplorer({ data, meds }: { data: any[]; meds: MedEvent[] }) {
+  const vars = useMemo(() => nightVariables(data, meds), [data, meds]);
+  const dates = useMemo(() => data.map((r) => r.date as CalendarDate), [data]);
+  const [xKey, setXKey] = useState("awake");
+  const [yKey, setYKey] = useState("deepPct");
+  const [lag, setLag] = useState(0);
+
+  const x = vars.find((v) => v.key === xKey) ?? vars[0];
+  const y = vars.find((v) => v.key === yKey) ?? vars[1];
+
+  const { xs, ys, pairs } = useMemo(() => pairedValues(x, y, dates, lag), [x, y, dates, lag]);
+  const stats = useMemo(() => correlate(xs, ys), [xs, ys]);
+  const fit = useMemo(() => linearFit(xs, ys), [xs, ys]);
+  const lags = useMemo(() => lagCorrelations(x, y, dates, MAX_LAG), [x, y, dates]);
+  const matrix = useMemo(() => correlationMatrix(vars, dates), [vars, dates]);
+
+  const xMin = Math.min(...xs);
+  const xMax = Math.max(...xs);
+  const selectClass = "rounded-xl border px-3 py-2 text-sm";
+
+  const select = (value: string, onChange: (key: string) => void) => (
+    <select className={selectClass} value={value} onChange={(e) => onChange(e.target.value)}>
+      {vars.map((v) => (
+        <option key={v.key} value={v.key}>
+          {v.label}
+        </option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        {select(x.key, setXKey)}
+        <span className="text-gray-500">against</span>
+        {select(y.key, setYKey)}
+        <label className="flex items-center gap-2">
+          {lag === 0 ? "the same night" : `${lag} night${lag === 1 ? "" : "s"} later`}
+          <input
+            type="range"
+            min={0}
+            max={MAX_LAG}
+            step={1}
+            value={lag}
+            onChange={(e) => setLag(parseInt(e.target.value))}
+          />
+        </label>
+      </div>
+
+      {[x, y]
+        .filter((v, i, both) => v.unknownDose && both.indexOf(v) === i)
+        .map((v) => (
+          <div key={v.key} className="text-xs text-amber-700">
+            {v.unknownDose} night{v.unknownDose === 1 ? "" : "s"} with no dose in the log{" "}
+            {v.unknownDose === 1 ? "is" : "are"} left out of {v.label}.
+          </div>
+        ))}
+
+      <div className="grid gap-4 md:grid-cols-2">
+        <div className="rounded-2xl border p-4">
+          <h3 className="font-medium">
+            {y.label}
+            {lag > 0 ? ` (+${lag} nights)` : ""} vs {x.label}
+          </h3>
+          <div className="text-xs text-gray-500">
+            n = {stats.n} · Pearson r = {rText(stats.r)} (p = {formatP(stats.p)}) · Spearman ρ ={" "}
+            {rText(stats.rho)}
+            {fit ? ` · slope ${fit.slope.toFixed(3)}` : ""}
+          </div>
+          <div className="h-64 w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <ScatterChart margin={{ top: 10, right: 20, left: 10, bottom: 10 }}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis
+                  type="number"
+                  dataKey="x"
+                  name={x.label}
+                  domain={["auto", "auto"]}
+                  tickFormatter={x.format}
+                />
+                <YAxis
+                  type="number"
+                  dataKey="y"
+                  name={y.label}
+                  width={40}
+                  domain={["auto", "auto"]}
+                  tickFormatter={y.format}
+                />
+                <ZAxis range={[16, 16]} />
+                <Tooltip
+                  formatter={(v: any, name: any) =>
+                    typeof v === "number" ? (name === x.label ? x.format(v) : y.format(v)) : v
+                  }
+                  labelFormatter={() => ""}
+                />
+                <Scatter data={pairs} fill="#3b82f6" fillOpacity={0.5} isAnimationActive={false} />
+                {fit && isFinite(xMin) && (
+                  <ReferenceLine
+                    segment={[
+                      { x: xMin, y: fit.intercept + fit.slope * xMin },
+                      { x: xMax, y: fit.intercept + fit.slope * xMax },
+                    ]}
+                    stroke="#1f2937"
+                    strokeWidth={1.5}
+                    ifOverflow="extendDomain"
+                  />
+                )}
+              </ScatterChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+
+        <div className="rounded-2xl border p-4">
+          <h3 className="font-medium">Correlation by lag</h3>
+          <div className="text-xs text-gray-500">
+            Pearson r between {x.label} on a night and {y.label} that many
+            nights later. Click a bar to plot that lag.
+          </div>
+          <div className="h-64 w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={lags} margin={{ top: 10, right: 20, left: 10, bottom: 10 }}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="lag" />
+                <YAxis width={40} domain={[-1, 1]} />
+                <Tooltip
+                  formatter={(v: any, _name: any, item: any) =>
+                    typeof v === "number"
+                      ? `${v.toFixed(2)} (p = ${formatP(item.payload.p)}, n = ${item.payload.n})`
+                      : v
+                  }
+                  labelFormatter={(l: any) => `Lag ${l} night${l === 1 ? "" : "s"}`}
+                />
+                <ReferenceLine y={0} stroke="#6b7280" />
+                <Bar
+                  dataKey="r"
+                  name="r"
+                  isAnimationActive={false}
+                  onClick={(d: any) => setLag(d.lag)}
+                  className="cursor-pointer"
+                >
+                  {lags.map((l) => (
+                    <Cell
+                      key={l.lag}
+                      fill={l.p < 0.05 ? "#3b82f6" : "#bfdbfe"}
+                      stroke={l.lag === lag ? "#1f2937" : "none"}
+                    />
+                  ))}
+                </Bar>
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+          <div className="text-xs text-gray-500">Darker bars: p &lt; 0.05</div>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <h3 className="font-medium">Correlation matrix (same night)</h3>
+        <div className="text-xs text-gray-500">
+          Pearson r for every pair of variables. Click a cell to plot the pair.
+          With this many pairs some will look significant by chance alone.
+        </div>
+        <div className="overflow-auto rounded-2xl border">
+          <table className="text-xs">
+            <thead className="bg-gray-50 text-gray-600">
+              <tr>
+                <th className="px-2 py-1" />
+                {vars.map((v) => (
+                  <th key={v.key} className="px-2 py-1 text-center align-bottom">
+                    {v.label}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {vars.map((row, i) => (
+                <tr key={row.key}>
+                  <th className="px-2 py-1 text-left whitespace-nowrap bg-gray-50 text-gray-600">
+                    {row.label}
+                  </th>
+                  {matrix[i].map((c, j) => (
+                    <td
+                      key={vars[j].key}
+                      className="px-2 py-1 text-center border border-white cursor-pointer"
+                      style={isFinite(c.r) ? divergingColor(c.r) : undefined}
+                      title={`${row.label} × ${vars[j].label}: r = ${rText(c.r)}, p = ${formatP(c.p)}, n = ${c.n}`}
+                      onClick={() => {
+                        setXKey(row.key);
+                        setYKey(vars[j].key);
+                        setLag(0);
+                      }}
+                    >
+                      {rText(c.r)}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
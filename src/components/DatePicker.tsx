@@ -42,7 +42,7 @@ const presets = [
   },
   {
     label: 'Start date (1/1/2024)',
-    getValue: () => new Date('2024-01-01')
+    getValue: () => new Date(2024, 0, 1)
   }
 ];
 
@@ -0,0 +1,196 @@
+import React, { useMemo, useState } from "react";
+import {
+  ComposedChart,
+  Scatter,
+  ErrorBar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ReferenceLine,
+  ResponsiveContainer,
+} from "recharts";
+import { doseFit, doseLevels, nightsWithDose } from "../lib/doseResponse";
+import { NIGHT_METRICS } from "../lib/metrics";
+import { medicationNames } from "../lib/regimen";
+import type { MedEvent, SleepRow } from "../lib/types";
+
+/**
+ * Plots a sleep metric against the active dose of one medication on each
+ * night, with per-dose means ± SD and a least-squares trend line.
+ */
+export function DoseResponse({
+  meds,
+  rows,
+}: {
+  meds: MedEvent[];
+  rows: SleepRow[];
+}) {
+  const names = useMemo(() => medicationNames(meds), [meds]);
+  const [medication, setMedication] = useState("");
+  const [metricKey, setMetricKey] = useState(NIGHT_METRICS[0].key);
+  const [includeOff, setIncludeOff] = useState(true);
+
+  const selected = names.includes(medication) ? medication : names[0] ?? "";
+  const metric = NIGHT_METRICS.find((m) => m.key === metricKey) ?? NIGHT_METRICS[0];
+
+  const { nights, unknownDose } = useMemo(
+    () =>
+      selected
+        ? nightsWithDose(rows, meds, selected, includeOff)
+        : { nights: [], unknownDose: 0 },
+    [rows, meds, selected, includeOff]
+  );
+
+  const points = useMemo(
+    () =>
+      nights.flatMap(({ row, dose }) => {
+        const value = metric.get(row);
+        return isFinite(value) ? [{ dose, value, dateStr: row.date }] : [];
+      }),
+    [nights, metric]
+  );
+  const levels = useMemo(() => doseLevels(points), [points]);
+  const fit = useMemo(() => doseFit(points), [points]);
+
+  const doses = levels.map((l) => l.dose);
+  const xMin = Math.min(...doses);
+  const xMax = Math.max(...doses);
+
+  const selectClass = "rounded-xl border px-3 py-2 text-sm";
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-3">
+        <select
+          className={selectClass}
+          value={selected}
+          onChange={(e) => setMedication(e.target.value)}
+        >
+          {names.map((n) => (
+            <option key={n} value={n}>
+              {n}
+            </option>
+          ))}
+        </select>
+        <select
+          className={selectClass}
+          value={metric.key}
+          onChange={(e) => setMetricKey(e.target.value)}
+        >
+          {NIGHT_METRICS.map((m) => (
+            <option key={m.key} value={m.key}>
+              {m.label}
+            </option>
+          ))}
+        </select>
+        <label className="flex items-center gap-2 text-sm text-gray-600">
+          <input
+            type="checkbox"
+            checked={includeOff}
+            onChange={(e) => setIncludeOff(e.target.checked)}
+          />
+          Include nights off the medication (0 mg)
+        </label>
+      </div>
+      {unknownDose > 0 && (
+        <div className="text-xs text-amber-700">
+          {unknownDose} night{unknownDose === 1 ? "" : "s"} on {selected} with no dose in the
+          log {unknownDose === 1 ? "is" : "are"} left out.
+        </div>
+      )}
+
+      {points.length === 0 ? (
+        <div className="text-sm text-gray-500">
+          No nights in the selected range with this medication.
+        </div>
+      ) : (
+        <>
+          <div className="h-72 w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart margin={{ top: 10, right: 20, left: 10, bottom: 10 }}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis
+                  type="number"
+                  dataKey="dose"
+                  name="Dose"
+                  unit=" mg"
+                  domain={[xMin === xMax ? xMin - 1 : "dataMin", "dataMax"]}
+                  ticks={doses}
+                />
+                <YAxis type="number" width={40} domain={["auto", "auto"]} />
+                <Tooltip
+                  formatter={(v: any) => (typeof v === "number" ? v.toFixed(2) : v)}
+                />
+                <Legend />
+                <Scatter
+                  name={`Nightly ${metric.label}`}
+                  data={points}
+                  dataKey="value"
+                  fill="#3b82f6"
+                  fillOpacity={0.25}
+                  isAnimationActive={false}
+                />
+                <Scatter
+                  name="Mean ± SD"
+                  data={levels}
+                  dataKey="mean"
+                  fill="#1f2937"
+                  shape="diamond"
+                  isAnimationActive={false}
+                >
+                  <ErrorBar dataKey="sd" direction="y" width={8} stroke="#1f2937" />
+                </Scatter>
+                {fit && xMin !== xMax && (
+                  <ReferenceLine
+                    segment={[
+                      { x: xMin, y: fit.intercept + fit.slope * xMin },
+                      { x: xMax, y: fit.intercept + fit.slope * xMax },
+                    ]}
+                    stroke="#ef4444"
+                    strokeDasharray="4 2"
+                  />
+                )}
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+          <div className="text-xs text-gray-500">
+            {fit && xMin !== xMax
+              ? `Trend: ${(fit.slope * 10).toFixed(2)} ${metric.label} per 10 mg (R² = ${fit.r2.toFixed(2)})`
+              : "Only one dose level; no trend line."}
+          </div>
+
+          <div className="overflow-auto rounded-2xl border">
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-50 text-gray-600">
+                <tr>
+                  <th className="px-3 py-2 text-left">Dose</th>
+                  <th className="px-3 py-2 text-right">Nights</th>
+                  <th className="px-3 py-2 text-right">Mean</th>
+                  <th className="px-3 py-2 text-right">SD</th>
+                  <th className="px-3 py-2 text-right">Range</th>
+                </tr>
+              </thead>
+              <tbody>
+                {levels.map((l) => (
+                  <tr key={l.dose} className="border-t">
+                    <td className="px-3 py-2">{l.dose} mg</td>
+                    <td className="px-3 py-2 text-right">{l.n}</td>
+                    <td className="px-3 py-2 text-right">{l.mean.toFixed(2)}</td>
+                    <td className="px-3 py-2 text-right">
+                      {l.n > 1 ? l.sd.toFixed(2) : "—"}
+                    </td>
+                    <td className="px-3 py-2 text-right whitespace-nowrap">
+                      {l.min.toFixed(2)} – {l.max.toFixed(2)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
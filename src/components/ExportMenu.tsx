@@ -0,0 +1,52 @@
+import React, { useState } from "react";
+import { Download } from "lucide-react";
+import { downloadTable, type ExportFormat, type ExportTable } from "../lib/exporters";
+
+const FORMATS: ExportFormat[] = ["csv", "json"];
+
+/**
+ * Download menu for the computed tables. Tables are built lazily on click so
+ * the menu costs nothing while closed.
+ */
+export function ExportMenu({ tables }: { tables: { label: string; build: () => ExportTable }[] }) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <div className="relative">
+      <button
+        className="inline-flex items-center gap-2 px-3 py-2 rounded-2xl bg-gray-100 hover:bg-gray-200"
+        onClick={() => setOpen((o) => !o)}
+      >
+        <Download className="w-4 h-4" />
+        Export
+      </button>
+      {open && (
+        <div className="absolute right-0 z-20 mt-2 w-72 rounded-2xl border bg-white p-2 shadow-lg">
+          {tables.map((t) => (
+            <div key={t.label} className="flex items-center justify-between gap-2 px-2 py-1.5 text-sm">
+              <span>{t.label}</span>
+              <span className="flex gap-1">
+                {FORMATS.map((f) => (
+                  <button
+                    key={f}
+                    className="px-2 py-1 rounded-lg bg-gray-100 hover:bg-gray-200 text-xs uppercase"
+                    onClick={() => {
+                      downloadTable(t.build(), f);
+                      setOpen(false);
+                    }}
+                  >
+                    {f}
+                  </button>
+                ))}
+              </span>
+            </div>
+          ))}
+          <div className="px-2 pt-1 text-[11px] text-gray-500">
+            Current filters only. Units, the rolling window and delta windows
+            are included with the data.
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
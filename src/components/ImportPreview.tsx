@@ -0,0 +1,229 @@
+import React, { useEffect, useState } from "react";
+import { AlertTriangle, Check, X } from "lucide-react";
+import type { ImportReport } from "../lib/importReport";
+
+const LIST_LIMIT = 20;
+
+function Stat({ label, value, warn }: { label: string; value: number; warn?: boolean }) {
+  return (
+    <div className="p-3 rounded-2xl border">
+      <div className="text-xs text-gray-500">{label}</div>
+      <div
+        className={`text-xl font-semibold mt-1 ${
+          warn && value > 0 ? "text-amber-600" : ""
+        }`}
+      >
+        {value}
+      </div>
+    </div>
+  );
+}
+
+function Truncated({ items }: { items: string[] }) {
+  return (
+    <>
+      {items.slice(0, LIST_LIMIT).join(", ")}
+      {items.length > LIST_LIMIT && ` … and ${items.length - LIST_LIMIT} more`}
+    </>
+  );
+}
+
+/**
+ * Summary of a parsed file shown before it replaces (or is merged into) the
+ * loaded data, so dropped rows and zero-filled values are visible instead of
+ * silent.
+ */
+export function ImportPreview({
+  title,
+  report,
+  incompleteCount = 0,
+  onConfirm,
+  onMerge,
+  onCancel,
+  duplicateNote,
+  children,
+}: {
+  title: string;
+  report: ImportReport;
+  /** Accepted rows with at least one value coerced to 0. */
+  incompleteCount?: number;
+  onConfirm: (skipIncomplete: boolean) => void;
+  /** Offered alongside replacing when rows can be combined with loaded data. */
+  onMerge?: (skipIncomplete: boolean) => void;
+  onCancel: () => void;
+  /** How duplicate dates are resolved, when not by the data sources policy. */
+  duplicateNote?: string;
+  /** Extra controls shown above the summary, e.g. a column mapper. */
+  children?: React.ReactNode;
+}) {
+  const [skipIncomplete, setSkipIncomplete] = useState(incompleteCount > 0);
+  // A remap or a new file gives a new report; default again to skipping its incomplete rows
+  useEffect(() => setSkipIncomplete(incompleteCount > 0), [report, incompleteCount]);
+  const coercedTotal = report.coerced.reduce((s, c) => s + c.count, 0);
+  const kept = report.accepted - (skipIncomplete ? incompleteCount : 0);
+
+  return (
+    <section className="rounded-2xl border-2 border-blue-200 bg-blue-50/30 p-4 space-y-4">
+      <div>
+        <h2 className="text-lg font-semibold">{title}</h2>
+        <div className="text-xs text-gray-500">
+          <Truncated items={report.files} />
+        </div>
+      </div>
+
+      {children}
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+        <Stat label="Rows accepted" value={report.accepted} />
+        <Stat label="Rows rejected" value={report.rejected.length} warn />
+        <Stat label="Unparseable dates" value={report.unparseableDates.length} warn />
+        <Stat label="Values coerced to 0" value={coercedTotal} warn />
+        <Stat label="Duplicate dates" value={report.duplicateDates.length} warn />
+      </div>
+
+      <div className="text-sm">
+        <div className="font-medium mb-1">Columns</div>
+        <div className="flex flex-wrap gap-2">
+          {report.columns.map((c) => (
+            <span
+              key={c.field}
+              className={`inline-flex items-center gap-1 rounded-lg border px-2 py-1 text-xs ${
+                c.column ? "bg-white" : "border-amber-300 bg-amber-50 text-amber-700"
+              }`}
+            >
+              {c.column ? <Check className="w-3 h-3" /> : <X className="w-3 h-3" />}
+              {c.field}: {c.column ?? "not found"}
+            </span>
+          ))}
+        </div>
+        {report.unknownColumns.length > 0 && (
+          <div className="mt-2 text-xs text-gray-500">
+            Ignored columns: <Truncated items={report.unknownColumns} />
+          </div>
+        )}
+      </div>
+
+      {report.coerced.length > 0 && (
+        <div className="text-sm">
+          <div className="font-medium mb-1">Missing or non-numeric values</div>
+          <ul className="text-xs text-gray-600 list-disc pl-5">
+            {report.coerced.map((c) => (
+              <li key={c.field}>
+                {c.field}: {c.count} row{c.count === 1 ? "" : "s"} set to 0
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {report.rejected.length > 0 && (
+        <div className="text-sm">
+          <div className="font-medium mb-1">Rejected rows</div>
+          <ul className="text-xs text-gray-600 list-disc pl-5">
+            {report.rejected.slice(0, LIST_LIMIT).map((r, i) => (
+              <li key={i}>
+                {report.files.length > 1 && `${r.file} `}row {r.row}: {r.reason}
+              </li>
+            ))}
+            {report.rejected.length > LIST_LIMIT && (
+              <li>… and {report.rejected.length - LIST_LIMIT} more</li>
+            )}
+          </ul>
+        </div>
+      )}
+
+      {report.ambiguous.length > 0 && (
+        <div className="text-sm">
+          <div className="font-medium mb-1 text-amber-700">Values to check</div>
+          <ul className="text-xs text-gray-600 list-disc pl-5">
+            {report.ambiguous.slice(0, LIST_LIMIT).map((r, i) => (
+              <li key={i}>
+                {report.files.length > 1 && `${r.file} `}row {r.row}: {r.reason}
+              </li>
+            ))}
+            {report.ambiguous.length > LIST_LIMIT && (
+              <li>… and {report.ambiguous.length - LIST_LIMIT} more</li>
+            )}
+          </ul>
+        </div>
+      )}
+
+      {report.duplicateDates.length > 0 && (
+        <div className="flex items-start gap-1 text-xs text-amber-700">
+          <AlertTriangle className="w-3 h-3 mt-0.5 shrink-0" />
+          <span>
+            Appears more than once: <Truncated items={report.duplicateDates} />
+            {duplicateNote
+              ? ` — ${duplicateNote}`
+              : onMerge && " — one row per night is kept, following the data sources policy"}
+          </span>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-3">
+        {incompleteCount > 0 && (
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={skipIncomplete}
+              onChange={(e) => setSkipIncomplete(e.target.checked)}
+            />
+            Skip {incompleteCount} row{incompleteCount === 1 ? "" : "s"} with
+            zero-filled values
+          </label>
+        )}
+        <div className="ml-auto flex gap-2">
+          <button
+            className="px-3 py-2 rounded-2xl bg-gray-100 hover:bg-gray-200 text-sm"
+            onClick={onCancel}
+          >
+            Cancel
+          </button>
+          {onMerge && (
+            <button
+              className="px-3 py-2 rounded-2xl bg-white border border-blue-300 hover:bg-blue-50 text-blue-700 text-sm disabled:opacity-50"
+              onClick={() => onMerge(skipIncomplete)}
+              disabled={kept === 0}
+            >
+              Merge with loaded data ({kept})
+            </button>
+          )}
+          <button
+            className="px-3 py-2 rounded-2xl bg-blue-600 hover:bg-blue-700 text-white text-sm disabled:opacity-50"
+            onClick={() => onConfirm(skipIncomplete)}
+            disabled={kept === 0}
+          >
+            Replace loaded data ({kept})
+          </button>
+        </div>
+      </div>
+    </section>
+  );
+}
+
+/** Shown in place of the preview when a file could not be read at all. */
+export function ImportError({
+  file,
+  message,
+  onDismiss,
+}: {
+  file: string;
+  message: string;
+  onDismiss: () => void;
+}) {
+  return (
+    <section className="rounded-2xl border-2 border-amber-300 bg-amber-50 p-4 flex items-start gap-3">
+      <AlertTriangle className="w-5 h-5 mt-0.5 shrink-0 text-amber-600" />
+      <div className="flex-1 text-sm">
+        <div className="font-medium">Could not import {file}</div>
+        <div className="text-gray-700">{message}</div>
+      </div>
+      <button
+        className="px-3 py-2 rounded-2xl bg-white hover:bg-gray-100 border text-sm"
+        onClick={onDismiss}
+      >
+        Dismiss
+      </button>
+    </section>
+  );
+}
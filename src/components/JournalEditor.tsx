@@ -0,0 +1,154 @@
+import React, { useEffect, useState } from "react";
+import { parseCalendarDate } from "../lib/dates";
+import { journalByDate, journalTags, normalizeTag, putEntry } from "../lib/journal";
+import type { CalendarDate, JournalEntry } from "../lib/types";
+
+/**
+ * Tags and a note for one night at a time, plus the list of nights already
+ * annotated. Nights are dated by the morning they end, like everywhere else.
+ */
+export function JournalEditor({
+  journal,
+  dates,
+  onChange,
+}: {
+  journal: JournalEntry[];
+  /** Loaded nights, oldest first; the editor opens on the latest. */
+  dates: CalendarDate[];
+  onChange: (journal: JournalEntry[]) => void;
+}) {
+  const [date, setDate] = useState<CalendarDate | null>(null);
+  const [tags, setTags] = useState<string[]>([]);
+  const [note, setNote] = useState("");
+  const [newTag, setNewTag] = useState("");
+
+  const current = date ?? dates[dates.length - 1] ?? null;
+  const saved = current ? journalByDate(journal).get(current) : undefined;
+  const available = Array.from(new Set([...journalTags(journal), ...tags]));
+
+  // Switching night (or an outside change to it) reloads the form
+  useEffect(() => {
+    setTags(saved?.tags ?? []);
+    setNote(saved?.note ?? "");
+  }, [current, saved]);
+
+  const toggle = (tag: string) =>
+    setTags((t) => (t.includes(tag) ? t.filter((x) => x !== tag) : [...t, tag]));
+
+  function addTag() {
+    const tag = normalizeTag(newTag);
+    if (tag && !tags.includes(tag)) setTags([...tags, tag]);
+    setNewTag("");
+  }
+
+  const dirty =
+    note.trim() !== (saved?.note ?? "") ||
+    [...tags].sort().join("|") !== [...(saved?.tags ?? [])].sort().join("|");
+
+  return (
+    <div className="grid gap-4 md:grid-cols-2">
+      <div className="p-4 rounded-2xl border space-y-3">
+        <label className="block text-sm text-gray-600">
+          Night ending
+          <input
+            type="date"
+            className="mt-1 w-full rounded-xl border px-3 py-2"
+            value={current ?? ""}
+            onChange={(e) => {
+              const d = parseCalendarDate(e.target.value);
+              if (d) setDate(d);
+            }}
+          />
+        </label>
+        {current && !dates.includes(current) && (
+          <div className="text-xs text-amber-700">No sleep recorded for this night.</div>
+        )}
+        <div className="flex flex-wrap gap-1 text-xs">
+          {available.map((tag) => (
+            <button
+              key={tag}
+              className={`px-2 py-1 rounded-lg ${
+                tags.includes(tag) ? "bg-amber-500 text-white" : "bg-gray-100 hover:bg-gray-200"
+              }`}
+              onClick={() => toggle(tag)}
+            >
+              {tag}
+            </button>
+          ))}
+        </div>
+        <div className="flex gap-2">
+          <input
+            className="flex-1 rounded-xl border px-3 py-2 text-sm"
+            placeholder="New tag"
+            value={newTag}
+            onChange={(e) => setNewTag(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") addTag();
+            }}
+          />
+          <button className="px-3 py-2 rounded-xl bg-gray-100 hover:bg-gray-200 text-sm" onClick={addTag}>
+            Add
+          </button>
+        </div>
+        <textarea
+          className="w-full rounded-xl border px-3 py-2 text-sm"
+          rows={3}
+          placeholder="Notes"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+        />
+        <div className="flex gap-2">
+          <button
+            className="px-3 py-2 rounded-xl bg-blue-600 text-white text-sm disabled:opacity-50"
+            disabled={!current || !dirty}
+            onClick={() => current && onChange(putEntry(journal, { date: current, tags, note }))}
+          >
+            Save
+          </button>
+          {saved && (
+            <button
+              className="px-3 py-2 rounded-xl bg-gray-100 hover:bg-gray-200 text-sm"
+              onClick={() => onChange(putEntry(journal, { date: saved.date, tags: [], note: "" }))}
+            >
+              Remove
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="overflow-auto max-h-96 rounded-2xl border">
+        <table className="min-w-full text-sm">
+          <thead className="bg-gray-50 text-gray-600">
+            <tr>
+              <th className="px-3 py-2 text-left">Night</th>
+              <th className="px-3 py-2 text-left">Tags</th>
+              <th className="px-3 py-2 text-left">Note</th>
+            </tr>
+          </thead>
+          <tbody>
+            {[...journal].reverse().map((e) => (
+              <tr
+                key={e.date}
+                className={`border-t cursor-pointer hover:bg-gray-50 ${
+                  e.date === current ? "bg-amber-50" : ""
+                }`}
+                onClick={() => setDate(e.date)}
+              >
+                <td className="px-3 py-2 whitespace-nowrap">{e.date}</td>
+                <td className="px-3 py-2">{e.tags.join(", ")}</td>
+                <td className="px-3 py-2 text-gray-600">{e.note}</td>
+              </tr>
+            ))}
+            {!journal.length && (
+              <tr>
+                <td colSpan={3} className="px-3 py-2 text-gray-500">
+                  No nights annotated yet.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,125 @@
+import React from "react";
+import { AlertTriangle } from "lucide-react";
+import { compareDates } from "../lib/dates";
+import { deltaWindows, type DeltaWindowOptions } from "../lib/deltas";
+import { metricValues, NIGHT_METRICS, type NightMetric } from "../lib/metrics";
+import { formatP, mean, welchTest } from "../lib/stats";
+import type { MedEvent, SleepRow } from "../lib/types";
+
+/**
+ * Change in means from `before` to `after` with its confidence interval and
+ * p-value; `showMeans` adds the two means underneath.
+ */
+export function DeltaCell({
+  before,
+  after,
+  showMeans = false,
+}: {
+  before: number[];
+  after: number[];
+  showMeans?: boolean;
+}) {
+  const test = welchTest(before, after);
+  const delta = mean(after) - mean(before);
+
+  if (!isFinite(delta)) {
+    return <td className="px-3 py-2 text-right">—</td>;
+  }
+
+  const significant = test !== null && test.p < 0.05;
+
+  return (
+    <td className="px-3 py-2 text-right whitespace-nowrap">
+      <div className={significant ? "font-medium" : "text-gray-400"}>
+        {delta.toFixed(2)}
+        {!significant && (
+          <span
+            className="ml-1 text-[10px] uppercase"
+            title="Not significant (p ≥ 0.05 or too few nights)"
+          >
+            ns
+          </span>
+        )}
+      </div>
+      <div className="text-[11px] text-gray-500">
+        {test
+          ? `[${test.ciLow.toFixed(2)}, ${test.ciHigh.toFixed(2)}] p=${formatP(test.p)}`
+          : "n too small"}
+      </div>
+      {showMeans && (
+        <div className="text-[11px] text-gray-500">
+          {mean(before).toFixed(2)} → {mean(after).toFixed(2)}
+        </div>
+      )}
+    </td>
+  );
+}
+
+/** Before/after change in each metric around every medication event. */
+export function MedDeltaTable({
+  meds,
+  data,
+  windows,
+  metrics = NIGHT_METRICS,
+}: {
+  meds: MedEvent[];
+  data: SleepRow[];
+  windows: DeltaWindowOptions;
+  /** Night metrics plus any imported covariates. */
+  metrics?: NightMetric[];
+}) {
+  const rows = deltaWindows(meds, data, windows).sort((a, b) =>
+    compareDates(b.m, a.m)
+  ); // Sort newest to oldest
+
+  return (
+    <div className="overflow-auto rounded-2xl border">
+      <table className="min-w-full text-sm">
+        <thead className="bg-gray-50 text-gray-600">
+          <tr>
+            <th className="px-3 py-2 text-left">Date</th>
+            <th className="px-3 py-2 text-left">Medication change</th>
+            <th className="px-3 py-2 text-right">Nights (before / after)</th>
+            {metrics.map((metric) => (
+              <th key={metric.key} className="px-3 py-2 text-right">
+                Δ {metric.label}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(({ m, pre, post, warnings }, idx) => (
+            <tr
+              key={idx}
+              className={`border-t ${warnings.length ? "bg-amber-50" : ""}`}
+            >
+              <td className="px-3 py-2 whitespace-nowrap">{m.date}</td>
+              <td className="px-3 py-2">
+                <div className="whitespace-nowrap">{m.label}</div>
+                {warnings.map((w) => (
+                  <div
+                    key={w}
+                    className="flex items-center gap-1 text-[11px] text-amber-700"
+                  >
+                    <AlertTriangle className="w-3 h-3 shrink-0" />
+                    {w}
+                  </div>
+                ))}
+              </td>
+              <td className="px-3 py-2 text-right whitespace-nowrap">
+                {pre.length} / {post.length}
+              </td>
+              {metrics.map((metric) => (
+                <DeltaCell
+                  key={metric.key}
+                  before={metricValues(pre, metric)}
+                  after={metricValues(post, metric)}
+                />
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
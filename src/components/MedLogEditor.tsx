@@ -0,0 +1,270 @@
+import React, { useMemo, useState } from "react";
+import { AlertTriangle, Download, Pencil, Trash2, Undo2 } from "lucide-react";
+import { compareDates, parseCalendarDate } from "../lib/dates";
+import { downloadBlob } from "../lib/exporters";
+import { medEvent, medLogIssues, medsToCsv } from "../lib/medLog";
+import { medicationNames } from "../lib/regimen";
+import type { MedAction, MedEvent } from "../lib/types";
+
+const ACTIONS: { action: MedAction; label: string }[] = [
+  { action: "START", label: "Start" },
+  { action: "CHANGE", label: "Dose change" },
+  { action: "STOP", label: "Stop" },
+];
+
+/** Form values as typed; checked and converted on save. */
+type Draft = { date: string; medication: string; dose: string; action: MedAction };
+
+const emptyDraft: Draft = { date: "", medication: "", dose: "", action: "START" };
+
+const draftOf = (e: MedEvent): Draft => ({
+  date: e.date,
+  medication: e.medication,
+  dose: e.dose === null ? "" : String(e.dose),
+  action: e.action,
+});
+
+/** The event a draft describes, or the reason it cannot be saved. */
+function parseDraft(d: Draft): MedEvent | string {
+  const date = parseCalendarDate(d.date);
+  if (!date) return "Enter a date";
+  if (!d.medication.trim()) return "Enter a medication";
+  let dose: number | null = null;
+  if (d.dose.trim()) {
+    dose = parseFloat(d.dose.replace(",", "."));
+    if (!isFinite(dose) || dose < 0) return "Dose must be a number of mg, or blank";
+  }
+  return medEvent(date, d.medication, dose, d.action);
+}
+
+function DraftRow({
+  draft,
+  onChange,
+  onSave,
+  onCancel,
+  saveLabel,
+}: {
+  draft: Draft;
+  onChange: (d: Draft) => void;
+  onSave: (e: MedEvent) => void;
+  onCancel?: () => void;
+  saveLabel: string;
+}) {
+  const parsed = parseDraft(draft);
+  const set = <K extends keyof Draft>(key: K, value: Draft[K]) =>
+    onChange({ ...draft, [key]: value });
+  const inputClass = "w-full rounded-lg border px-2 py-1";
+
+  return (
+    <tr className="border-t bg-blue-50/40">
+      <td className="px-3 py-2">
+        <input
+          type="date"
+          className={inputClass}
+          value={draft.date}
+          onChange={(e) => set("date", e.target.value)}
+        />
+      </td>
+      <td className="px-3 py-2">
+        <input
+          className={inputClass}
+          list="med-log-names"
+          placeholder="Medication"
+          value={draft.medication}
+          onChange={(e) => set("medication", e.target.value)}
+        />
+      </td>
+      <td className="px-3 py-2">
+        <input
+          type="number"
+          className={`${inputClass} text-right`}
+          min={0}
+          step="any"
+          placeholder="—"
+          value={draft.dose}
+          onChange={(e) => set("dose", e.target.value)}
+        />
+      </td>
+      <td className="px-3 py-2">
+        <select
+          className={inputClass}
+          value={draft.action}
+          onChange={(e) => set("action", e.target.value as MedAction)}
+        >
+          {ACTIONS.map((a) => (
+            <option key={a.action} value={a.action}>
+              {a.label}
+            </option>
+          ))}
+        </select>
+      </td>
+      <td className="px-3 py-2 text-xs text-gray-500">
+        {typeof parsed === "string" ? parsed : parsed.label}
+      </td>
+      <td className="px-3 py-2 whitespace-nowrap text-right">
+        <button
+          className="px-2 py-1 rounded-lg bg-blue-600 text-white text-xs disabled:opacity-50"
+          disabled={typeof parsed === "string"}
+          onClick={() => typeof parsed !== "string" && onSave(parsed)}
+        >
+          {saveLabel}
+        </button>
+        {onCancel && (
+          <button
+            className="ml-1 px-2 py-1 rounded-lg bg-gray-100 hover:bg-gray-200 text-xs"
+            onClick={onCancel}
+          >
+            Cancel
+          </button>
+        )}
+      </td>
+    </tr>
+  );
+}
+
+/**
+ * Add, edit and delete medication events in place, with undo, warnings for
+ * inconsistent entries and a download in the `medications.csv` layout.
+ */
+export function MedLogEditor({
+  meds,
+  onChange,
+  onUndo,
+  canUndo,
+}: {
+  meds: MedEvent[];
+  onChange: (meds: MedEvent[]) => void;
+  onUndo: () => void;
+  canUndo: boolean;
+}) {
+  const [draft, setDraft] = useState<Draft>(emptyDraft);
+  const [editing, setEditing] = useState<MedEvent | null>(null);
+  const [editDraft, setEditDraft] = useState<Draft>(emptyDraft);
+
+  // Newest first, as in medications.csv
+  const rows = useMemo(() => [...meds].sort((a, b) => compareDates(b, a)), [meds]);
+  const issues = useMemo(() => medLogIssues(meds), [meds]);
+  const names = useMemo(() => medicationNames(meds), [meds]);
+  const issueCount = issues.size;
+
+  function add(e: MedEvent) {
+    onChange([...meds, e]);
+    // Keep the name for a run of entries for the same drug
+    setDraft({ ...emptyDraft, medication: e.medication, action: "CHANGE" });
+  }
+
+  function save(e: MedEvent) {
+    if (!editing) return;
+    onChange(meds.map((m) => (m === editing ? e : m)));
+    setEditing(null);
+  }
+
+  return (
+    <div className="space-y-3">
+      <datalist id="med-log-names">
+        {names.map((n) => (
+          <option key={n} value={n} />
+        ))}
+      </datalist>
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <button
+          className="inline-flex items-center gap-1 px-3 py-2 rounded-2xl bg-gray-100 hover:bg-gray-200 disabled:opacity-50"
+          onClick={onUndo}
+          disabled={!canUndo}
+        >
+          <Undo2 className="w-4 h-4" />
+          Undo
+        </button>
+        <button
+          className="inline-flex items-center gap-1 px-3 py-2 rounded-2xl bg-gray-100 hover:bg-gray-200 disabled:opacity-50"
+          onClick={() =>
+            downloadBlob(
+              "medications.csv",
+              new Blob([medsToCsv(meds)], { type: "text/csv;charset=utf-8" })
+            )
+          }
+          disabled={!meds.length}
+        >
+          <Download className="w-4 h-4" />
+          Download medications.csv
+        </button>
+        {issueCount > 0 && (
+          <span className="inline-flex items-center gap-1 text-xs text-amber-700">
+            <AlertTriangle className="w-3 h-3" />
+            {issueCount} entr{issueCount === 1 ? "y needs" : "ies need"} checking
+          </span>
+        )}
+      </div>
+
+      <div className="overflow-auto max-h-[32rem] rounded-2xl border">
+        <table className="min-w-full text-sm">
+          <thead className="bg-gray-50 text-gray-600">
+            <tr>
+              <th className="px-3 py-2 text-left">Date</th>
+              <th className="px-3 py-2 text-left">Medication</th>
+              <th className="px-3 py-2 text-right">Dose (mg)</th>
+              <th className="px-3 py-2 text-left">Action</th>
+              <th className="px-3 py-2 text-left">Label</th>
+              <th className="px-3 py-2" />
+            </tr>
+          </thead>
+          <tbody>
+            <DraftRow draft={draft} onChange={setDraft} onSave={add} saveLabel="Add" />
+            {rows.map((m, idx) =>
+              m === editing ? (
+                <DraftRow
+                  key={idx}
+                  draft={editDraft}
+                  onChange={setEditDraft}
+                  onSave={save}
+                  onCancel={() => setEditing(null)}
+                  saveLabel="Save"
+                />
+              ) : (
+                <tr key={idx} className={`border-t ${issues.has(m) ? "bg-amber-50" : ""}`}>
+                  <td className="px-3 py-2 whitespace-nowrap">{m.date}</td>
+                  <td className="px-3 py-2">{m.medication}</td>
+                  <td className="px-3 py-2 text-right">{m.dose ?? "—"}</td>
+                  <td className="px-3 py-2">
+                    {ACTIONS.find((a) => a.action === m.action)?.label}
+                  </td>
+                  <td className="px-3 py-2">
+                    <div className="whitespace-nowrap">{m.label}</div>
+                    {issues.get(m)?.map((w) => (
+                      <div
+                        key={w}
+                        className="flex items-center gap-1 text-[11px] text-amber-700"
+                      >
+                        <AlertTriangle className="w-3 h-3 shrink-0" />
+                        {w}
+                      </div>
+                    ))}
+                  </td>
+                  <td className="px-3 py-2 whitespace-nowrap text-right">
+                    <button
+                      className="p-1 rounded-lg hover:bg-gray-100"
+                      title="Edit"
+                      onClick={() => {
+                        setEditing(m);
+                        setEditDraft(draftOf(m));
+                      }}
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </button>
+                    <button
+                      className="p-1 rounded-lg hover:bg-gray-100"
+                      title="Delete"
+                      onClick={() => onChange(meds.filter((o) => o !== m))}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </td>
+                </tr>
+              )
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
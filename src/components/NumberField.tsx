@@ -0,0 +1,56 @@
+import React, { useEffect, useState } from "react";
+
+/**
+ * A number input that keeps the text as typed and clamps it to [min, max]
+ * only on blur or Enter, so the "1" of "14" is not snapped to the minimum
+ * mid-typing. Blank or invalid text goes back to the current value.
+ */
+export function NumberField({
+  value,
+  min,
+  max,
+  step = 1,
+  className,
+  title,
+  onCommit,
+}: {
+  value: number;
+  min: number;
+  max: number;
+  step?: number;
+  className?: string;
+  title?: string;
+  onCommit: (value: number) => void;
+}) {
+  const [text, setText] = useState(String(value));
+
+  useEffect(() => setText(String(value)), [value]);
+
+  function commit() {
+    const n = parseFloat(text);
+    if (!isFinite(n)) {
+      setText(String(value));
+      return;
+    }
+    const clamped = Math.min(max, Math.max(min, Number.isInteger(step) ? Math.round(n) : n));
+    setText(String(clamped));
+    if (clamped !== value) onCommit(clamped);
+  }
+
+  return (
+    <input
+      type="number"
+      min={min}
+      max={max}
+      step={step}
+      className={className}
+      title={title}
+      value={text}
+      onChange={(e) => setText(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === "Enter") commit();
+      }}
+    />
+  );
+}
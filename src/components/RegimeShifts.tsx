@@ -0,0 +1,129 @@
+import React from "react";
+import { NumberField } from "./NumberField";
+import type { ChangePointOptions, Segment, ShiftMatch } from "../lib/changePoints";
+
+/** Shifts within this many days of a medication change are marked as lining up with it. */
+export const ALIGN_DAYS = 14;
+
+function SegmentCell({ seg, format }: { seg: Segment; format: (v: number) => string }) {
+  return (
+    <td className="px-3 py-2 text-right whitespace-nowrap">
+      <div>{format(seg.mean)}</div>
+      <div className="text-[11px] text-gray-500">
+        ±{seg.sd.toFixed(2)} · {seg.n} nights
+      </div>
+    </td>
+  );
+}
+
+/**
+ * Detected regime shifts, newest first, each next to the closest
+ * medication change and how many days after (or before) it the shift began.
+ */
+export function RegimeShifts({
+  matches,
+  options,
+  onOptionsChange,
+  showOnCharts,
+  onShowOnChartsChange,
+}: {
+  matches: ShiftMatch[];
+  options: ChangePointOptions;
+  onOptionsChange: (o: ChangePointOptions) => void;
+  showOnCharts: boolean;
+  onShowOnChartsChange: (show: boolean) => void;
+}) {
+  const rows = [...matches].sort((a, b) =>
+    a.shift.date < b.shift.date ? 1 : a.shift.date > b.shift.date ? -1 : 0
+  );
+  const inputClass = "w-16 rounded-lg border px-2 py-1 text-sm";
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-4 text-sm">
+        <label className="flex items-center gap-2">
+          Shortest regime (nights)
+          <NumberField
+            min={3}
+            max={90}
+            className={inputClass}
+            value={options.minSegment}
+            onCommit={(minSegment) => onOptionsChange({ ...options, minSegment })}
+          />
+        </label>
+        <label className="flex items-center gap-2">
+          Penalty (× log n)
+          <NumberField
+            min={0.5}
+            max={20}
+            step={0.5}
+            className={inputClass}
+            value={options.penalty}
+            onCommit={(penalty) => onOptionsChange({ ...options, penalty })}
+          />
+        </label>
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={showOnCharts}
+            onChange={(e) => onShowOnChartsChange(e.target.checked)}
+          />
+          Shade regimes on the charts
+        </label>
+      </div>
+
+      {rows.length === 0 ? (
+        <div className="text-sm text-gray-600">No regime shifts detected in the selected range.</div>
+      ) : (
+        <div className="overflow-auto rounded-2xl border">
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-50 text-gray-600">
+              <tr>
+                <th className="px-3 py-2 text-left">Shift</th>
+                <th className="px-3 py-2 text-left">Metric</th>
+                <th className="px-3 py-2 text-right">Before</th>
+                <th className="px-3 py-2 text-right">After</th>
+                <th className="px-3 py-2 text-left">Nearest medication change</th>
+                <th className="px-3 py-2 text-right">Lag (days)</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(({ shift, event, lag }) => {
+                const aligned = lag !== null && Math.abs(lag) <= ALIGN_DAYS;
+                return (
+                  <tr
+                    key={`${shift.metric.key}|${shift.date}`}
+                    className={`border-t ${aligned ? "bg-emerald-50" : ""}`}
+                  >
+                    <td className="px-3 py-2 whitespace-nowrap">{shift.date}</td>
+                    <td className="px-3 py-2 whitespace-nowrap">{shift.metric.label}</td>
+                    <SegmentCell seg={shift.before} format={shift.metric.format} />
+                    <SegmentCell seg={shift.after} format={shift.metric.format} />
+                    <td className="px-3 py-2">
+                      {event ? (
+                        <>
+                          <div className="whitespace-nowrap">{event.label}</div>
+                          <div className="text-[11px] text-gray-500">{event.date}</div>
+                        </>
+                      ) : (
+                        "—"
+                      )}
+                    </td>
+                    <td className="px-3 py-2 text-right whitespace-nowrap">
+                      {lag === null ? "—" : `${lag > 0 ? "+" : ""}${lag}`}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+      <div className="text-xs text-gray-500">
+        Lag is the shift date minus the medication change date: positive when
+        the shift came after the change. Highlighted rows are within{" "}
+        {ALIGN_DAYS} days of a change; the rest happened with no change nearby.
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,91 @@
+import React, { useMemo } from "react";
+import {
+  AreaChart,
+  Area,
+  XAxis,
+  YAxis,
+  Tooltip,
+  ResponsiveContainer,
+} from "recharts";
+import { doseTimeline, medicationNames } from "../lib/regimen";
+import type { CalendarDate, MedEvent } from "../lib/types";
+
+const LANE_COLORS = [
+  "#3b82f6",
+  "#10b981",
+  "#f59e0b",
+  "#ef4444",
+  "#8b5cf6",
+  "#ec4899",
+  "#14b8a6",
+  "#6b7280",
+];
+
+/**
+ * Swimlane view of the medication regimen: one step chart per drug showing
+ * its active dose on each date. It covers the same dates as the sleep charts,
+ * but the lanes' name column and margins mean the x positions do not line up.
+ */
+export function RegimenChart({
+  meds,
+  dates,
+}: {
+  meds: MedEvent[];
+  dates: CalendarDate[];
+}) {
+  const names = useMemo(() => medicationNames(meds), [meds]);
+  const data = useMemo(() => doseTimeline(meds, dates), [meds, dates]);
+
+  if (names.length === 0 || dates.length === 0) {
+    return <div className="text-sm text-gray-500">No medication events.</div>;
+  }
+
+  return (
+    <div className="space-y-1">
+      {names.map((name, i) => {
+        const isLast = i === names.length - 1;
+        const maxDose = Math.max(
+          1,
+          ...meds.filter((m) => m.medication === name).map((m) => m.dose ?? 0)
+        );
+        const color = LANE_COLORS[i % LANE_COLORS.length];
+
+        return (
+          <div key={name} className="flex items-center gap-2">
+            <div
+              className="w-28 shrink-0 truncate text-xs text-gray-600"
+              title={name}
+            >
+              {name}
+            </div>
+            <div className={`${isLast ? "h-14" : "h-8"} flex-1`}>
+              <ResponsiveContainer width="100%" height="100%">
+                <AreaChart
+                  data={data}
+                  syncId="regimen"
+                  margin={{ top: 2, right: 20, left: 10, bottom: 0 }}
+                >
+                  <XAxis dataKey="dateStr" hide={!isLast} minTickGap={32} />
+                  <YAxis hide domain={[0, maxDose]} />
+                  <Tooltip
+                    formatter={(v: any) => (v === null ? "not taking" : `${v} mg`)}
+                    labelFormatter={(l: any) => `Date: ${l}`}
+                  />
+                  <Area
+                    type="stepAfter"
+                    dataKey={name}
+                    stroke={color}
+                    fill={color}
+                    fillOpacity={0.25}
+                    strokeWidth={1.5}
+                    isAnimationActive={false}
+                  />
+                </AreaChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+import React from "react";
+import { ChevronUp, ChevronDown, ChevronsUpDown } from "lucide-react";
+
+/** Table header cell that sorts by its column; clicking again flips the direction. */
+export function SortableHeader<K extends string>({
+  column,
+  currentSort,
+  direction,
+  onSort,
+  children,
+  align = "left",
+}: {
+  column: K;
+  currentSort: K;
+  direction: "asc" | "desc";
+  onSort: (col: K, dir: "asc" | "desc") => void;
+  children: React.ReactNode;
+  align?: "left" | "right";
+}) {
+  const isActive = currentSort === column;
+
+  const handleClick = () => {
+    if (isActive) {
+      // Toggle direction if same column
+      onSort(column, direction === "asc" ? "desc" : "asc");
+    } else {
+      onSort(column, "desc");
+    }
+  };
+
+  const getIcon = () => {
+    if (!isActive) return <ChevronsUpDown className="w-3 h-3 opacity-50" />;
+    return direction === "asc" ? (
+      <ChevronUp className="w-3 h-3" />
+    ) : (
+      <ChevronDown className="w-3 h-3" />
+    );
+  };
+
+  return (
+    <th
+      className={`px-3 py-2 cursor-pointer hover:bg-gray-100 select-none ${
+        align === "right" ? "text-right" : "text-left"
+      }`}
+      onClick={handleClick}
+    >
+      <div
+        className={`flex items-center gap-1 ${
+          align === "right" ? "justify-end" : "justify-start"
+        }`}
+      >
+        {children}
+        {getIcon()}
+      </div>
+    </th>
+  );
+}
@@ -0,0 +1,139 @@
+import React from "react";
+import { ChevronDown, ChevronUp } from "lucide-react";
+import {
+  sourceOf,
+  type MergePolicy,
+  type MergeStrategy,
+  type NightResolution,
+} from "../lib/merge";
+
+const LIST_LIMIT = 50;
+
+const STRATEGIES: { value: MergeStrategy; label: string }[] = [
+  { value: "longest", label: "Longest session" },
+  { value: "device", label: "Preferred device" },
+  { value: "recent", label: "Most recent import" },
+];
+
+const formatImported = (t?: number) =>
+  t ? new Date(t).toLocaleString() : "bundled / earlier";
+
+/**
+ * Policy controls for nights recorded by more than one source, and the list
+ * of dates where sources disagreed with the row that was kept.
+ */
+export function SourceMerge({
+  sources,
+  policy,
+  conflicts,
+  onChange,
+}: {
+  /** Every source name in the loaded rows. */
+  sources: string[];
+  policy: MergePolicy;
+  conflicts: NightResolution[];
+  onChange: (policy: MergePolicy) => void;
+}) {
+  // Sources missing from the saved order go last, in the order they were found
+  const order = [
+    ...policy.preferred.filter((s) => sources.includes(s)),
+    ...sources.filter((s) => !policy.preferred.includes(s)),
+  ];
+
+  const move = (i: number, by: number) => {
+    const next = [...order];
+    [next[i], next[i + by]] = [next[i + by], next[i]];
+    onChange({ ...policy, preferred: next });
+  };
+
+  return (
+    <div className="space-y-3 text-sm">
+      <div className="flex flex-wrap items-start gap-6">
+        <label className="flex items-center gap-2">
+          When sources disagree, keep
+          <select
+            className="rounded-lg border px-2 py-1 bg-white"
+            value={policy.strategy}
+            onChange={(e) =>
+              onChange({ ...policy, strategy: e.target.value as MergeStrategy })
+            }
+          >
+            {STRATEGIES.map((s) => (
+              <option key={s.value} value={s.value}>
+                {s.label}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        {policy.strategy === "device" && (
+          <ol className="space-y-1">
+            {order.map((s, i) => (
+              <li key={s} className="flex items-center gap-2">
+                <span className="w-4 text-xs text-gray-500">{i + 1}.</span>
+                <span className="flex-1">{s}</span>
+                <button
+                  className="text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                  disabled={i === 0}
+                  onClick={() => move(i, -1)}
+                  title="Prefer this source"
+                >
+                  <ChevronUp className="w-4 h-4" />
+                </button>
+                <button
+                  className="text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                  disabled={i === order.length - 1}
+                  onClick={() => move(i, 1)}
+                  title="Prefer this source less"
+                >
+                  <ChevronDown className="w-4 h-4" />
+                </button>
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+
+      {conflicts.length === 0 ? (
+        <div className="text-gray-600">
+          Every night has a single source; nothing to resolve.
+        </div>
+      ) : (
+        <div className="overflow-auto rounded-2xl border max-h-96">
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-50 sticky top-0">
+              <tr>
+                <th className="px-3 py-2 text-left">Night</th>
+                <th className="px-3 py-2 text-left">Kept</th>
+                <th className="px-3 py-2 text-left">Other records</th>
+              </tr>
+            </thead>
+            <tbody>
+              {conflicts.slice(0, LIST_LIMIT).map((c) => (
+                <tr key={c.dateStr} className="odd:bg-white even:bg-gray-50">
+                  <td className="px-3 py-2 whitespace-nowrap">{c.dateStr}</td>
+                  <td className="px-3 py-2 whitespace-nowrap">
+                    <span className="font-medium">{sourceOf(c.winner)}</span>{" "}
+                    {c.winner.totalSleep.toFixed(2)} h
+                  </td>
+                  <td className="px-3 py-2 text-gray-600">
+                    {c.candidates.slice(1).map((r, i) => (
+                      <div key={i} title={`Imported ${formatImported(r.importedAt)}`}>
+                        {sourceOf(r)} {r.totalSleep.toFixed(2)} h
+                      </div>
+                    ))}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {conflicts.length > LIST_LIMIT && (
+            <div className="px-3 py-2 text-xs text-gray-500">
+              … and {conflicts.length - LIST_LIMIT} more nights
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+import React, { useContext, useEffect, useMemo, useState } from "react";
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ReferenceLine,
+  Brush,
+  ResponsiveContainer,
+} from "recharts";
+import type { MedEvent } from "../lib/types";
+import { ChartExportContext } from "./ChartCard";
+
+export type StageScale = "hours" | "percent";
+
+/** Stacked bottom to top, so awake time sits on top of the sleep stages. */
+const STAGES = [
+  { key: "deep", label: "Deep", color: "#1e3a8a" },
+  { key: "core", label: "Core", color: "#3b82f6" },
+  { key: "rem", label: "REM", color: "#a78bfa" },
+  { key: "awake", label: "Awake", color: "#fbbf24" },
+];
+
+type BrushRange = { startIndex: number; endIndex: number };
+
+/**
+ * Nightly sleep-stage composition as stacked bars, either in hours or as a
+ * share of the night (sleep stages plus awake time = 100%).
+ */
+export function StageCompositionChart({
+  data,
+  meds,
+  showMedLabels = false,
+  scale,
+}: {
+  /** Chart rows with `dateStr` and core/deep/rem/awake hours. */
+  data: any[];
+  meds?: MedEvent[];
+  showMedLabels?: boolean;
+  scale: StageScale;
+}) {
+  const exporting = useContext(ChartExportContext);
+  const labelled = showMedLabels || exporting;
+  const [range, setRange] = useState<BrushRange | null>(null);
+
+  useEffect(() => setRange(null), [data]);
+
+  const rows = useMemo(() => {
+    if (scale === "hours") return data;
+    return data.map((r) => {
+      const night = STAGES.reduce((s, st) => s + (r[st.key] || 0), 0);
+      const out: Record<string, unknown> = { dateStr: r.dateStr, source: r.source };
+      STAGES.forEach((st) => (out[st.key] = night > 0 ? ((r[st.key] || 0) / night) * 100 : 0));
+      return out;
+    });
+  }, [data, scale]);
+
+  const unit = scale === "hours" ? " h" : "%";
+
+  return (
+    <div className="h-72 w-full">
+      <ResponsiveContainer width="100%" height="100%">
+        <BarChart
+          data={rows}
+          barCategoryGap={0}
+          margin={{ top: labelled ? 60 : 10, right: 20, left: 10, bottom: 0 }}
+        >
+          <CartesianGrid strokeDasharray="3 3" vertical={false} />
+          <XAxis dataKey="dateStr" minTickGap={32} />
+          <YAxis
+            width={40}
+            domain={scale === "hours" ? [0, "auto"] : [0, 100]}
+            tickFormatter={(v: number) => (scale === "hours" ? String(v) : `${v}%`)}
+          />
+          <Tooltip
+            formatter={(v: any) => (typeof v === "number" ? `${v.toFixed(2)}${unit}` : v)}
+            labelFormatter={(l: any, payload: any[]) => {
+              const source = payload?.[0]?.payload?.source;
+              return source ? `Date: ${l} (${source})` : `Date: ${l}`;
+            }}
+          />
+          <Legend />
+          {STAGES.map((st) => (
+            <Bar
+              key={st.key}
+              dataKey={st.key}
+              name={st.label}
+              stackId="night"
+              fill={st.color}
+              isAnimationActive={!exporting}
+            />
+          ))}
+          {meds?.map((m, i) => (
+            <ReferenceLine
+              key={i}
+              x={m.date}
+              stroke="hsla(220, 20%, 10%, .8)"
+              strokeDasharray="2 2"
+              label={
+                labelled
+                  ? {
+                      position: "top",
+                      value: m.label,
+                      angle: -90,
+                      offset: 0,
+                      fill: "hsl(220, 20%, 20%)",
+                      fontSize: 11,
+                    }
+                  : undefined
+              }
+            />
+          ))}
+          <Brush
+            dataKey="dateStr"
+            height={18}
+            travellerWidth={8}
+            className="rounded"
+            startIndex={range?.startIndex}
+            endIndex={range?.endIndex}
+            onChange={(r: any) => setRange({ startIndex: r.startIndex, endIndex: r.endIndex })}
+          />
+        </BarChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
@@ -0,0 +1,59 @@
+import React from "react";
+import { tagSplits } from "../lib/journal";
+import { metricValues, NIGHT_METRICS, type NightMetric } from "../lib/metrics";
+import type { JournalEntry, SleepRow } from "../lib/types";
+import { DeltaCell } from "./MedDeltaTable";
+
+/** Each metric on tagged nights against all other nights, per tag. */
+export function TagComparison({
+  data,
+  journal,
+  metrics = NIGHT_METRICS,
+}: {
+  data: SleepRow[];
+  journal: JournalEntry[];
+  /** Night metrics plus any imported covariates. */
+  metrics?: NightMetric[];
+}) {
+  const splits = tagSplits(data, journal);
+
+  if (!splits.length) {
+    return <div className="text-sm text-gray-600">No tagged nights yet.</div>;
+  }
+
+  return (
+    <div className="overflow-auto rounded-2xl border">
+      <table className="min-w-full text-sm">
+        <thead className="bg-gray-50 text-gray-600">
+          <tr>
+            <th className="px-3 py-2 text-left">Tag</th>
+            <th className="px-3 py-2 text-right">Nights (tagged / untagged)</th>
+            {metrics.map((metric) => (
+              <th key={metric.key} className="px-3 py-2 text-right">
+                Δ {metric.label}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {splits.map(({ tag, tagged, untagged }) => (
+            <tr key={tag} className="border-t">
+              <td className="px-3 py-2 whitespace-nowrap">{tag}</td>
+              <td className="px-3 py-2 text-right whitespace-nowrap">
+                {tagged.length} / {untagged.length}
+              </td>
+              {metrics.map((metric) => (
+                <DeltaCell
+                  key={metric.key}
+                  before={metricValues(untagged, metric)}
+                  after={metricValues(tagged, metric)}
+                  showMeans
+                />
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
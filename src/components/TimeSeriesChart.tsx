@@ -0,0 +1,254 @@
+import React, { useContext, useEffect, useState } from "react";
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ReferenceLine,
+  ReferenceArea,
+  Brush,
+  ResponsiveContainer,
+} from "recharts";
+import type { Deviation } from "../lib/anomalies";
+import type { Segment } from "../lib/changePoints";
+import type { SeriesMetric } from "../lib/metrics";
+import type { MedEvent } from "../lib/types";
+import { ChartExportContext } from "./ChartCard";
+
+type BrushRange = { startIndex: number; endIndex: number };
+
+/** Above and below the night's baseline. */
+export const ANOMALY_COLORS = { high: "#dc2626", low: "#7c3aed" };
+
+/** Ring around nights that carry journal tags. */
+export const TAG_COLOR = "#d97706";
+
+/**
+ * Dot for nights where this series was flagged as unusual (rows carry
+ * `deviations`), ringed when the night has journal `tags`.
+ */
+function nightDot(yKey: string) {
+  return (props: any) => {
+    const d = (props.payload?.deviations as Deviation[] | undefined)?.find(
+      (x) => x.metric.key === yKey
+    );
+    const tagged = !!(props.payload?.tags as string[] | undefined)?.length;
+    if ((!d && !tagged) || props.cy == null) return <g key={props.key} />;
+    return (
+      <g key={props.key}>
+        {tagged && (
+          <circle cx={props.cx} cy={props.cy} r={5} fill="none" stroke={TAG_COLOR} strokeWidth={1.5} />
+        )}
+        {d && (
+          <circle
+            cx={props.cx}
+            cy={props.cy}
+            r={3.5}
+            fill={d.z > 0 ? ANOMALY_COLORS.high : ANOMALY_COLORS.low}
+            stroke="#ffffff"
+            strokeWidth={1}
+          />
+        )}
+      </g>
+    );
+  };
+}
+
+/**
+ * A nightly series with an optional rolling-average line, a dashed marker
+ * at each medication change, a coloured dot on each unusual night and a
+ * ring on each night with journal tags.
+ * Detected regimes, when given, are shaded with their mean drawn across.
+ * With `overlays`, one of them can be drawn against a second axis.
+ */
+export function TimeSeriesChart({
+  data,
+  yKey,
+  y2Key,
+  meds,
+  showMedLabels = false,
+  format,
+  compact = false,
+  segments,
+  overlays,
+  overlay,
+  onOverlayChange,
+}: {
+  data: any[];
+  yKey: string;
+  y2Key?: string;
+  meds?: MedEvent[];
+  showMedLabels?: boolean;
+  format?: (v: number) => string;
+  /** Shorter, static chart for print: no zoom brush and no animation. */
+  compact?: boolean;
+  segments?: Segment[];
+  /** Series offered for the right-hand axis, e.g. imported covariates. */
+  overlays?: SeriesMetric[];
+  /** Key of the overlaid series, if any. */
+  overlay?: string | null;
+  onOverlayChange?: (key: string | null) => void;
+}) {
+  // Image export always labels events; the brush range is held here because
+  // recharts resets an uncontrolled brush when the margin changes
+  const exporting = useContext(ChartExportContext);
+  const labelled = showMedLabels || exporting;
+  const animate = !compact && !exporting;
+  const [range, setRange] = useState<BrushRange | null>(null);
+
+  useEffect(() => setRange(null), [data]);
+
+  const second = overlays?.find((o) => o.key === overlay);
+
+  return (
+    <>
+      {!compact && onOverlayChange && !!overlays?.length && (
+        <select
+          className="mb-2 rounded-xl border px-2 py-1 text-xs"
+          value={second?.key ?? ""}
+          onChange={(e) => onOverlayChange(e.target.value || null)}
+          data-export="ignore"
+        >
+          <option value="">No overlay</option>
+          {overlays.map((o) => (
+            <option key={o.key} value={o.key}>
+              Overlay: {o.label}
+            </option>
+          ))}
+        </select>
+      )}
+      <div className={`${compact ? "h-48" : "h-72"} w-full`}>
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart
+            data={data}
+            margin={{ top: labelled ? 60 : 10, right: 20, left: 10, bottom: 0 }}
+          >
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="dateStr" minTickGap={32} />
+            <YAxis width={40} tickFormatter={format} domain={["auto", "auto"]} />
+            {second && (
+              <YAxis
+                yAxisId="overlay"
+                orientation="right"
+                width={40}
+                tickFormatter={second.format}
+                domain={["auto", "auto"]}
+              />
+            )}
+            <Tooltip
+              formatter={(v: any, name: any) =>
+                typeof v !== "number"
+                  ? v
+                  : second && name === second.label
+                    ? second.format(v)
+                    : format
+                      ? format(v)
+                      : v.toFixed(2)
+              }
+              labelFormatter={(l: any, payload: any[]) => {
+                const row = payload?.[0]?.payload;
+                const label = row?.source ? `Date: ${l} (${row.source})` : `Date: ${l}`;
+                return row?.tags?.length ? `${label} · ${row.tags.join(", ")}` : label;
+              }}
+            />
+            <Legend />
+            {segments?.map((seg, i) => (
+              <ReferenceArea
+                key={`area-${seg.from}`}
+                x1={seg.from}
+                x2={seg.to}
+                fill="#6366f1"
+                fillOpacity={i % 2 ? 0.12 : 0.05}
+                label={{
+                  value: `mean ${format ? format(seg.mean) : seg.mean.toFixed(2)}`,
+                  position: "insideTopLeft",
+                  fill: "#c2410c",
+                  fontSize: 10,
+                }}
+              />
+            ))}
+            {segments?.map((seg) => (
+              <ReferenceLine
+                key={`mean-${seg.from}`}
+                segment={[
+                  { x: seg.from, y: seg.mean },
+                  { x: seg.to, y: seg.mean },
+                ]}
+                stroke="#ea580c"
+                strokeWidth={2}
+              />
+            ))}
+            {meds?.map((m, i) => (
+              <ReferenceLine
+                key={i}
+                x={m.date}
+                stroke="hsla(220, 20%, 10%, .8)"
+                strokeDasharray="2 2"
+                label={
+                  labelled
+                    ? {
+                        position: "top",
+                        value: m.label,
+                        angle: -90,
+                        offset: 0,
+                        fill: "hsl(220, 20%, 20%)",
+                        fontSize: 11,
+                      }
+                    : undefined
+                }
+              />
+            ))}
+            <Line
+              type="monotone"
+              dataKey={yKey}
+              name={yKey}
+              stroke="#3b82f6"
+              dot={nightDot(yKey)}
+              strokeWidth={1.5}
+              isAnimationActive={animate}
+            />
+            {y2Key && (
+              <Line
+                type="monotone"
+                dataKey={y2Key}
+                name={`${yKey} (rolling)`}
+                stroke="#1f2937"
+                dot={false}
+                strokeWidth={1}
+                isAnimationActive={animate}
+              />
+            )}
+            {second && (
+              <Line
+                type="monotone"
+                yAxisId="overlay"
+                // A function, since imported column names may contain dots
+                dataKey={(r: any) => r[second.key] ?? null}
+                name={second.label}
+                stroke="#10b981"
+                dot={false}
+                strokeWidth={1}
+                connectNulls
+                isAnimationActive={animate}
+              />
+            )}
+            {!compact && (
+              <Brush
+                dataKey="dateStr"
+                height={18}
+                travellerWidth={8}
+                className="rounded"
+                startIndex={range?.startIndex}
+                endIndex={range?.endIndex}
+                onChange={(r: any) => setRange({ startIndex: r.startIndex, endIndex: r.endIndex })}
+              />
+            )}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,163 @@
+import React, { useMemo, useState } from "react";
+import { NumberField } from "./NumberField";
+import { SortableHeader } from "./SortableHeader";
+import { ANOMALY_COLORS } from "./TimeSeriesChart";
+import { MIN_BASELINE, type AnomalyOptions, type Deviation } from "../lib/anomalies";
+import type { CalendarDate } from "../lib/types";
+
+type SortKey = "date" | "maxZ" | "count";
+
+type UnusualNight = {
+  date: CalendarDate;
+  source?: string;
+  deviations: Deviation[];
+  maxZ: number;
+  count: number;
+};
+
+/**
+ * Nights where at least one metric fell outside its trailing baseline, with
+ * the value, the baseline median and the robust z-score of each deviation.
+ */
+export function UnusualNights({
+  data,
+  options,
+  onOptionsChange,
+}: {
+  /** Chart rows carrying `deviations` from scoreAnomalies. */
+  data: any[];
+  options: AnomalyOptions;
+  onOptionsChange: (o: AnomalyOptions) => void;
+}) {
+  const [sortKey, setSortKey] = useState<SortKey>("maxZ");
+  const [direction, setDirection] = useState<"asc" | "desc">("desc");
+
+  const nights = useMemo(() => {
+    const rows: UnusualNight[] = data
+      .filter((r) => r.deviations?.length)
+      .map((r) => ({
+        date: r.dateStr,
+        source: r.source,
+        deviations: r.deviations,
+        maxZ: Math.abs(r.deviations[0].z),
+        count: r.deviations.length,
+      }));
+    const sign = direction === "asc" ? 1 : -1;
+    return rows.sort((a, b) =>
+      a[sortKey] < b[sortKey] ? -sign : a[sortKey] > b[sortKey] ? sign : 0
+    );
+  }, [data, sortKey, direction]);
+
+  const handleSort = (key: SortKey, dir: "asc" | "desc") => {
+    setSortKey(key);
+    setDirection(dir);
+  };
+
+  const inputClass = "w-16 rounded-lg border px-2 py-1 text-sm";
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-4 text-sm">
+        <label className="flex items-center gap-2">
+          Baseline (nights)
+          <NumberField
+            min={MIN_BASELINE}
+            max={180}
+            className={inputClass}
+            value={options.window}
+            onCommit={(window) => onOptionsChange({ ...options, window })}
+          />
+        </label>
+        <label className="flex items-center gap-2">
+          Threshold (|z| ≥)
+          <NumberField
+            min={1}
+            max={10}
+            step={0.5}
+            className={inputClass}
+            value={options.threshold}
+            onCommit={(threshold) => onOptionsChange({ ...options, threshold })}
+          />
+        </label>
+        <span className="text-xs text-gray-500">
+          <span style={{ color: ANOMALY_COLORS.high }}>●</span> above baseline{" "}
+          <span style={{ color: ANOMALY_COLORS.low }}>●</span> below baseline
+        </span>
+      </div>
+      <div className="text-xs text-gray-500">
+        Each night is compared with the median of the {options.window} nights
+        before it, in units of median absolute deviation. The first nights of
+        the selected range have no baseline yet and are not scored.
+      </div>
+
+      {nights.length === 0 ? (
+        <div className="text-sm text-gray-600">No unusual nights in the selected range.</div>
+      ) : (
+        <div className="overflow-auto rounded-2xl border max-h-96">
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-50 text-gray-600 sticky top-0">
+              <tr>
+                <SortableHeader
+                  column="date"
+                  currentSort={sortKey}
+                  direction={direction}
+                  onSort={handleSort}
+                >
+                  Date
+                </SortableHeader>
+                <th className="px-3 py-2 text-left">Deviations</th>
+                <SortableHeader
+                  column="count"
+                  currentSort={sortKey}
+                  direction={direction}
+                  onSort={handleSort}
+                  align="right"
+                >
+                  Metrics
+                </SortableHeader>
+                <SortableHeader
+                  column="maxZ"
+                  currentSort={sortKey}
+                  direction={direction}
+                  onSort={handleSort}
+                  align="right"
+                >
+                  Max |z|
+                </SortableHeader>
+              </tr>
+            </thead>
+            <tbody>
+              {nights.map((n) => (
+                <tr key={`${n.date}|${n.source ?? ""}`} className="border-t align-top">
+                  <td className="px-3 py-2 whitespace-nowrap">
+                    <div>{n.date}</div>
+                    {n.source && <div className="text-[11px] text-gray-500">{n.source}</div>}
+                  </td>
+                  <td className="px-3 py-2">
+                    <div className="flex flex-wrap gap-1">
+                      {n.deviations.map((d) => (
+                        <span
+                          key={d.metric.key}
+                          className="rounded-lg border px-2 py-0.5 text-xs whitespace-nowrap"
+                          style={{ color: d.z > 0 ? ANOMALY_COLORS.high : ANOMALY_COLORS.low }}
+                        >
+                          {d.metric.label} {d.metric.format(d.value)}{" "}
+                          <span className="text-gray-500">
+                            (usual {d.metric.format(d.median)}, z {d.z > 0 ? "+" : ""}
+                            {d.z.toFixed(1)})
+                          </span>
+                        </span>
+                      ))}
+                    </div>
+                  </td>
+                  <td className="px-3 py-2 text-right">{n.count}</td>
+                  <td className="px-3 py-2 text-right">{n.maxZ.toFixed(1)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
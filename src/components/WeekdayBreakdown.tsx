@@ -0,0 +1,199 @@
+import React, { useMemo, useState } from "react";
+import {
+  ComposedChart,
+  Bar,
+  Scatter,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from "recharts";
+import { heatColor, scaleUnit } from "../lib/colorScale";
+import { SERIES_METRICS } from "../lib/metrics";
+import { formatP } from "../lib/stats";
+import { weekdayMonthGrid, weekdayStats, weekendComparison } from "../lib/weekdays";
+
+/**
+ * Day-of-week view of the nights in the current range: each metric's
+ * distribution per night of the week, work nights against free nights, and
+ * a night-of-week × month heatmap.
+ */
+export function WeekdayBreakdown({ data }: { data: any[] }) {
+  const [metricKey, setMetricKey] = useState(SERIES_METRICS[0].key);
+  const metric = SERIES_METRICS.find((m) => m.key === metricKey) ?? SERIES_METRICS[0];
+
+  const stats = useMemo(
+    () => weekdayStats(data, metric.key).map((s) => ({ ...s, iqr: [s.q1, s.q3] })),
+    [data, metric]
+  );
+  const comparison = useMemo(() => weekendComparison(data), [data]);
+  const grid = useMemo(() => weekdayMonthGrid(data, metric.key), [data, metric]);
+
+  const cellMeans = grid.cells.flat().map((c) => c.mean).filter((v) => isFinite(v));
+  const lo = Math.min(...cellMeans);
+  const hi = Math.max(...cellMeans);
+  const fmt = (v: number) => (isFinite(v) ? metric.format(v) : "—");
+
+  return (
+    <div className="space-y-4">
+      <select
+        className="rounded-xl border px-3 py-2 text-sm"
+        value={metric.key}
+        onChange={(e) => setMetricKey(e.target.value)}
+      >
+        {SERIES_METRICS.map((m) => (
+          <option key={m.key} value={m.key}>
+            {m.label}
+          </option>
+        ))}
+      </select>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        <div className="rounded-2xl border p-4">
+          <h3 className="font-medium">{metric.label} by night of the week</h3>
+          <div className="text-xs text-gray-500 mb-2">
+            Bars span the middle half of nights (25th–75th percentile)
+          </div>
+          <div className="h-64 w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={stats} margin={{ top: 10, right: 20, left: 10, bottom: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="label" />
+                <YAxis width={40} domain={["auto", "auto"]} tickFormatter={metric.format} />
+                <Tooltip
+                  formatter={(v: any) =>
+                    Array.isArray(v) ? v.map(fmt).join(" – ") : typeof v === "number" ? fmt(v) : v
+                  }
+                />
+                <Legend />
+                <Bar dataKey="iqr" name="Middle 50%" fill="#bfdbfe" />
+                <Scatter dataKey="median" name="Median" fill="#1d4ed8" />
+                <Scatter dataKey="mean" name="Mean" fill="#f97316" shape="diamond" />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+
+        <div className="overflow-auto rounded-2xl border">
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-50 text-gray-600">
+              <tr>
+                <th className="px-3 py-2 text-left">Night</th>
+                <th className="px-3 py-2 text-right">Nights</th>
+                <th className="px-3 py-2 text-right">Mean</th>
+                <th className="px-3 py-2 text-right">SD</th>
+                <th className="px-3 py-2 text-right">Median</th>
+                <th className="px-3 py-2 text-right">25th–75th</th>
+              </tr>
+            </thead>
+            <tbody>
+              {stats.map((s) => (
+                <tr key={s.dow} className="border-t">
+                  <td className="px-3 py-2">{s.label}</td>
+                  <td className="px-3 py-2 text-right">{s.n}</td>
+                  <td className="px-3 py-2 text-right">{fmt(s.mean)}</td>
+                  <td className="px-3 py-2 text-right">{isFinite(s.sd) ? s.sd.toFixed(2) : "—"}</td>
+                  <td className="px-3 py-2 text-right">{fmt(s.median)}</td>
+                  <td className="px-3 py-2 text-right whitespace-nowrap">
+                    {fmt(s.q1)} – {fmt(s.q3)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <h3 className="font-medium">Work nights vs free nights</h3>
+        <div className="text-xs text-gray-500">
+          Work nights are Sunday to Thursday, free nights Friday and Saturday.
+          The difference is free minus work, with its 95% confidence interval
+          and Welch t-test p-value; clock times differ in hours.
+        </div>
+        <div className="overflow-auto rounded-2xl border">
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-50 text-gray-600">
+              <tr>
+                <th className="px-3 py-2 text-left">Metric</th>
+                <th className="px-3 py-2 text-right">Work nights</th>
+                <th className="px-3 py-2 text-right">Free nights</th>
+                <th className="px-3 py-2 text-right">Difference</th>
+              </tr>
+            </thead>
+            <tbody>
+              {comparison.map(({ metric: m, weekday, weekend, test }) => {
+                const significant = test !== null && test.p < 0.05;
+                return (
+                  <tr key={m.key} className="border-t">
+                    <td className="px-3 py-2">{m.label}</td>
+                    <td className="px-3 py-2 text-right">
+                      {isFinite(weekday.mean) ? m.format(weekday.mean) : "—"}
+                      <span className="ml-1 text-[11px] text-gray-500">n={weekday.n}</span>
+                    </td>
+                    <td className="px-3 py-2 text-right">
+                      {isFinite(weekend.mean) ? m.format(weekend.mean) : "—"}
+                      <span className="ml-1 text-[11px] text-gray-500">n={weekend.n}</span>
+                    </td>
+                    <td className="px-3 py-2 text-right whitespace-nowrap">
+                      {test ? (
+                        <>
+                          <div className={significant ? "font-medium" : "text-gray-400"}>
+                            {test.diff > 0 ? "+" : ""}
+                            {test.diff.toFixed(2)}
+                          </div>
+                          <div className="text-[11px] text-gray-500">
+                            [{test.ciLow.toFixed(2)}, {test.ciHigh.toFixed(2)}] p={formatP(test.p)}
+                          </div>
+                        </>
+                      ) : (
+                        "n too small"
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <h3 className="font-medium">{metric.label}: night of the week × month</h3>
+        <div className="overflow-auto rounded-2xl border">
+          <table className="text-xs">
+            <thead className="bg-gray-50 text-gray-600">
+              <tr>
+                <th className="px-2 py-1 text-left">Night</th>
+                {grid.months.map((m) => (
+                  <th key={m} className="px-2 py-1 text-center whitespace-nowrap">
+                    {m}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {stats.map((s, i) => (
+                <tr key={s.dow}>
+                  <td className="px-2 py-1 font-medium">{s.label}</td>
+                  {grid.cells[i].map((c, j) => (
+                    <td
+                      key={grid.months[j]}
+                      className="px-2 py-1 text-center border border-white"
+                      style={isFinite(c.mean) ? heatColor(scaleUnit(c.mean, lo, hi)) : undefined}
+                      title={`${s.label} nights in ${grid.months[j]}: ${c.n}`}
+                    >
+                      {fmt(c.mean)}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
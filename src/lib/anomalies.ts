@@ -0,0 +1,70 @@
+import { SERIES_METRICS, type SeriesMetric } from "./metrics";
+import { median } from "./stats";
+
+export type AnomalyOptions = {
+  /** Trailing nights the baseline is taken from (the night itself excluded). */
+  window: number;
+  /** Robust z-score beyond which a night counts as unusual. */
+  threshold: number;
+};
+
+/** 3.5 is the usual modified z-score cut-off (Iglewicz & Hoaglin). */
+export const DEFAULT_ANOMALY_OPTIONS: AnomalyOptions = { window: 28, threshold: 3.5 };
+
+/** Nights without at least this many baseline values are not scored. */
+export const MIN_BASELINE = 7;
+
+export type Deviation = {
+  metric: SeriesMetric;
+  value: number;
+  /** Median of the baseline window. */
+  median: number;
+  z: number;
+};
+
+/**
+ * Modified z-score of `value` against `baseline`: distance from the median
+ * in units of the median absolute deviation, scaled to match a standard
+ * z-score for normal data. NaN when the baseline is too short or flat.
+ */
+export function robustZ(value: number, baseline: number[]) {
+  if (baseline.length < MIN_BASELINE) return NaN;
+  const med = median(baseline);
+  const mad = median(baseline.map((v) => Math.abs(v - med)));
+  return mad > 0 ? (0.6745 * (value - med)) / mad : NaN;
+}
+
+const valueOf = (row: any, key: string) => {
+  const v = row[key];
+  return typeof v === "number" && isFinite(v) ? v : null;
+};
+
+/**
+ * Scores every night against the `window` nights before it, per metric.
+ * Returns, for each row, the metrics whose robust z-score reaches the
+ * threshold, largest deviation first.
+ */
+export function scoreAnomalies(
+  rows: any[],
+  opts: AnomalyOptions,
+  metrics: SeriesMetric[] = SERIES_METRICS
+): Deviation[][] {
+  const out: Deviation[][] = rows.map(() => []);
+
+  metrics.forEach((metric) => {
+    const values = rows.map((r) => valueOf(r, metric.key));
+    values.forEach((value, i) => {
+      if (value === null) return;
+      const baseline = values
+        .slice(Math.max(0, i - opts.window), i)
+        .filter((v): v is number => v !== null);
+      const z = robustZ(value, baseline);
+      if (Math.abs(z) >= opts.threshold) {
+        out[i].push({ metric, value, median: median(baseline), z });
+      }
+    });
+  });
+
+  out.forEach((d) => d.sort((a, b) => Math.abs(b.z) - Math.abs(a.z)));
+  return out;
+}
@@ -0,0 +1,250 @@
+import type JSZip from "jszip";
+import type { SleepImport } from "./importers";
+import { compareDates } from "./dates";
+import { emptyReport, findDuplicates } from "./importReport";
+import { DEFAULT_DAY_START, dayKey } from "./sessions";
+import { parseZonedTime } from "./timing";
+import type { CalendarDate, SleepRow, ZonedTime } from "./types";
+
+export type HealthStage = "inBed" | "asleep" | "core" | "deep" | "rem" | "awake";
+
+export type HealthSegment = {
+  start: ZonedTime;
+  end: ZonedTime;
+  stage: HealthStage;
+  source: string;
+};
+
+/** Hour of the day from which sleep counts towards the next date's night. */
+export const DEFAULT_NIGHT_CUTOFF = DEFAULT_DAY_START;
+
+const SLEEP_TYPE = "HKCategoryTypeIdentifierSleepAnalysis";
+
+const STAGE_VALUES: Record<string, HealthStage> = {
+  HKCategoryValueSleepAnalysisInBed: "inBed",
+  HKCategoryValueSleepAnalysisAsleep: "asleep",
+  HKCategoryValueSleepAnalysisAsleepUnspecified: "asleep",
+  HKCategoryValueSleepAnalysisAsleepCore: "core",
+  HKCategoryValueSleepAnalysisAsleepDeep: "deep",
+  HKCategoryValueSleepAnalysisAsleepREM: "rem",
+  HKCategoryValueSleepAnalysisAwake: "awake",
+};
+
+function attr(tag: string, name: string) {
+  const m = tag.match(new RegExp(`\\s${name}="([^"]*)"`));
+  return m ? m[1] : null;
+}
+
+function unescapeXml(s: string) {
+  return s
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+type ScanResult = { segments: HealthSegment[]; skipped: number };
+
+/**
+ * Incremental scanner for `<Record …>` tags. export.xml is often several
+ * hundred MB, so it is fed in chunks and only sleep records are kept.
+ */
+function createRecordScanner() {
+  const result: ScanResult = { segments: [], skipped: 0 };
+  let buffer = "";
+
+  function handleTag(tag: string) {
+    if (attr(tag, "type") !== SLEEP_TYPE) return;
+
+    const stage = STAGE_VALUES[attr(tag, "value") ?? ""];
+    const start = parseZonedTime(attr(tag, "startDate"));
+    const end = parseZonedTime(attr(tag, "endDate"));
+    if (!stage || !start || !end || end.at <= start.at) {
+      result.skipped++;
+      return;
+    }
+    result.segments.push({
+      start,
+      end,
+      stage,
+      source: unescapeXml(attr(tag, "sourceName") ?? "Apple Health"),
+    });
+  }
+
+  return {
+    push(chunk: string) {
+      buffer += chunk;
+      let from = 0;
+      for (;;) {
+        const open = buffer.indexOf("<Record ", from);
+        if (open === -1) {
+          // Keep a short tail in case "<Record " is split across chunks
+          from = Math.max(from, buffer.length - 8);
+          break;
+        }
+        const close = buffer.indexOf(">", open);
+        if (close === -1) {
+          from = open;
+          break;
+        }
+        handleTag(buffer.slice(open, close + 1));
+        from = close + 1;
+      }
+      buffer = buffer.slice(from);
+    },
+    result() {
+      return result;
+    },
+  };
+}
+
+async function scanFile(file: File): Promise<ScanResult> {
+  const scanner = createRecordScanner();
+  const reader = file.stream().getReader();
+  const decoder = new TextDecoder();
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    scanner.push(decoder.decode(value, { stream: true }));
+  }
+  scanner.push(decoder.decode());
+  return scanner.result();
+}
+
+function scanZipEntry(entry: JSZip.JSZipObject): Promise<ScanResult> {
+  const scanner = createRecordScanner();
+  const decoder = new TextDecoder();
+
+  return new Promise((resolve, reject) => {
+    // internalStream is public JSZip API but missing from its type definitions
+    (entry as any)
+      .internalStream("uint8array")
+      .on("data", (chunk: Uint8Array) =>
+        scanner.push(decoder.decode(chunk, { stream: true }))
+      )
+      .on("error", reject)
+      .on("end", () => {
+        scanner.push(decoder.decode());
+        resolve(scanner.result());
+      })
+      .resume();
+  });
+}
+
+const hoursOf = (s: HealthSegment) => (s.end.at.getTime() - s.start.at.getTime()) / 3600000;
+
+function buildNight(date: CalendarDate, source: string, segments: HealthSegment[]): SleepRow {
+  const sum = (stage: HealthStage) =>
+    segments.filter((s) => s.stage === stage).reduce((t, s) => t + hoursOf(s), 0);
+  const core = sum("core");
+  const deep = sum("deep");
+  const rem = sum("rem");
+  const asleepSegs = segments.filter((s) => s.stage !== "inBed" && s.stage !== "awake");
+  const bounds = asleepSegs.length ? asleepSegs : segments;
+  const onset = bounds.reduce((a, s) => (s.start.at < a.at ? s.start : a), bounds[0].start);
+  const offset = bounds.reduce((a, s) => (s.end.at > a.at ? s.end : a), bounds[0].end);
+  // The session runs from the first in-bed (or sleep) sample to the last
+  const start = Math.min(...segments.map((s) => s.start.at.getTime()));
+  const end = Math.max(...segments.map((s) => s.end.at.getTime()));
+
+  return {
+    date,
+    totalSleep: core + deep + rem + sum("asleep"),
+    core,
+    deep,
+    rem,
+    awake: sum("awake"),
+    inBed: (end - start) / 3600000,
+    onset,
+    offset,
+    source,
+  };
+}
+
+/** Splits one source's segments wherever nothing was recorded, e.g. between a night and a nap. */
+function splitSessions(segments: HealthSegment[]): HealthSegment[][] {
+  const sorted = [...segments].sort((a, b) => a.start.at.getTime() - b.start.at.getTime());
+  const out: HealthSegment[][] = [];
+  let end = 0;
+
+  sorted.forEach((s) => {
+    if (!out.length || s.start.at.getTime() > end) out.push([]);
+    out[out.length - 1].push(s);
+    end = Math.max(end, s.end.at.getTime());
+  });
+  return out;
+}
+
+/**
+ * Turns sleep segments into one row per session and source. A session is
+ * dated by where its start falls, with `cutoffHour` marking where one night's
+ * window starts (e.g. 18 → sessions from 18:00 onward count towards the next
+ * date). Watch and phone often record the same night; that conflict, and
+ * telling naps from the main sleep, is left to the sleep-day grouping.
+ */
+export function groupHealthNights(
+  segments: HealthSegment[],
+  cutoffHour: number,
+  files: string[] = ["export.xml"],
+  skipped = 0
+): SleepImport {
+  const bySource = new Map<string, HealthSegment[]>();
+
+  segments.forEach((s) => {
+    if (!bySource.has(s.source)) bySource.set(s.source, []);
+    bySource.get(s.source)!.push(s);
+  });
+
+  const rows: SleepRow[] = [];
+  bySource.forEach((segs, source) => {
+    splitSessions(segs).forEach((session) =>
+      rows.push(buildNight(dayKey(session[0].start, cutoffHour), source, session))
+    );
+  });
+  rows.sort(compareDates);
+
+  const report = emptyReport(files);
+  report.accepted = rows.length;
+  report.columns = [{ field: "sleep records", column: SLEEP_TYPE }];
+  report.duplicateDates = findDuplicates(rows.map((r) => r.date));
+  if (skipped) {
+    report.rejected.push({
+      file: files[0] ?? "export.xml",
+      row: 0,
+      reason: `${skipped} sleep record${skipped === 1 ? "" : "s"} with unknown stage or bad timestamps`,
+    });
+  }
+
+  return {
+    rows,
+    incomplete: new Set(),
+    report,
+    files: [],
+    mapping: {},
+    appleHealth: { segments, cutoffHour, skipped },
+  };
+}
+
+export async function parseAppleHealthXml(
+  file: File,
+  cutoffHour = DEFAULT_NIGHT_CUTOFF
+): Promise<SleepImport> {
+  const { segments, skipped } = await scanFile(file);
+  return groupHealthNights(segments, cutoffHour, [file.name], skipped);
+}
+
+/** Finds an Apple Health export inside a ZIP (export.xml, not export_cda.xml). */
+export function findHealthExport(zip: JSZip) {
+  const name = Object.keys(zip.files).find((n) => /(^|\/)export\.xml$/i.test(n));
+  return name ? zip.file(name) : null;
+}
+
+export async function parseAppleHealthZipEntry(
+  entry: JSZip.JSZipObject,
+  cutoffHour = DEFAULT_NIGHT_CUTOFF
+): Promise<SleepImport> {
+  const { segments, skipped } = await scanZipEntry(entry);
+  return groupHealthNights(segments, cutoffHour, [entry.name], skipped);
+}
@@ -0,0 +1,138 @@
+import { daysBetween } from "./dates";
+import { SERIES_METRICS, type SeriesMetric } from "./metrics";
+import type { CalendarDate, MedEvent } from "./types";
+
+export type ChangePointOptions = {
+  /** Shortest regime, in nights; shorter runs are treated as noise. */
+  minSegment: number;
+  /** Penalty per change, as a multiple of log(n). Higher finds fewer shifts. */
+  penalty: number;
+};
+
+export const DEFAULT_CHANGE_POINT_OPTIONS: ChangePointOptions = { minSegment: 14, penalty: 3 };
+
+/** A run of nights with a stable mean and variance. */
+export type Segment = {
+  from: CalendarDate;
+  to: CalendarDate;
+  n: number;
+  mean: number;
+  sd: number;
+};
+
+/** The start of a new regime, i.e. the first night of a segment after the first. */
+export type RegimeShift = {
+  metric: SeriesMetric;
+  date: CalendarDate;
+  before: Segment;
+  after: Segment;
+};
+
+/** Nearest medication event to a shift; `lag` is shift minus event, in days. */
+export type ShiftMatch = { shift: RegimeShift; event: MedEvent | null; lag: number | null };
+
+/** Keeps flat stretches from giving an infinitely good fit. */
+const MIN_VARIANCE = 1e-6;
+
+/**
+ * Cost of a segment under a normal model with its own mean and variance
+ * (twice the negative log-likelihood, up to a constant), from prefix sums.
+ */
+function segmentCost(sum: number[], sumSq: number[], from: number, to: number) {
+  const n = to - from;
+  const s = sum[to] - sum[from];
+  const variance = (sumSq[to] - sumSq[from]) / n - (s / n) ** 2;
+  return n * Math.log(Math.max(variance, MIN_VARIANCE));
+}
+
+/**
+ * Binary segmentation on mean and variance: split wherever that lowers the
+ * cost by more than the penalty, then repeat on both halves. Returns the
+ * indices where new segments start.
+ */
+export function changePoints(values: number[], opts: ChangePointOptions): number[] {
+  const n = values.length;
+  const sum = [0];
+  const sumSq = [0];
+  values.forEach((v, i) => {
+    sum.push(sum[i] + v);
+    sumSq.push(sumSq[i] + v * v);
+  });
+  const penalty = opts.penalty * Math.log(Math.max(n, 2));
+  const out: number[] = [];
+
+  const split = (from: number, to: number) => {
+    if (to - from < opts.minSegment * 2) return;
+    const whole = segmentCost(sum, sumSq, from, to);
+    let best = -1;
+    let bestGain = penalty;
+    for (let k = from + opts.minSegment; k <= to - opts.minSegment; k++) {
+      const gain = whole - segmentCost(sum, sumSq, from, k) - segmentCost(sum, sumSq, k, to);
+      if (gain > bestGain) {
+        best = k;
+        bestGain = gain;
+      }
+    }
+    if (best < 0) return;
+    out.push(best);
+    split(from, best);
+    split(best, to);
+  };
+
+  split(0, n);
+  return out.sort((a, b) => a - b);
+}
+
+function segmentOf(points: { date: CalendarDate; value: number }[]): Segment {
+  const n = points.length;
+  const mean = points.reduce((s, p) => s + p.value, 0) / n;
+  const variance = points.reduce((s, p) => s + (p.value - mean) ** 2, 0) / Math.max(n - 1, 1);
+  return { from: points[0].date, to: points[n - 1].date, n, mean, sd: Math.sqrt(variance) };
+}
+
+/** Segments of one metric's series in the chart rows; nights without a value are skipped. */
+export function metricSegments(rows: any[], key: string, opts: ChangePointOptions): Segment[] {
+  const points = rows.flatMap((r) => {
+    const v = r[key];
+    return typeof v === "number" && isFinite(v) ? [{ date: r.dateStr as CalendarDate, value: v }] : [];
+  });
+  if (!points.length) return [];
+
+  const bounds = [0, ...changePoints(points.map((p) => p.value), opts), points.length];
+  return bounds.slice(1).map((end, i) => segmentOf(points.slice(bounds[i], end)));
+}
+
+/** Segments for every charted metric, keyed by metric key. */
+export function detectSegments(
+  rows: any[],
+  opts: ChangePointOptions,
+  metrics: SeriesMetric[] = SERIES_METRICS
+) {
+  return new Map(metrics.map((m) => [m.key, metricSegments(rows, m.key, opts)]));
+}
+
+export function regimeShifts(
+  segments: Map<string, Segment[]>,
+  metrics: SeriesMetric[] = SERIES_METRICS
+): RegimeShift[] {
+  return metrics.flatMap((metric) => {
+    const segs = segments.get(metric.key) ?? [];
+    return segs.slice(1).map((after, i) => ({ metric, date: after.from, before: segs[i], after }));
+  });
+}
+
+/** Pairs each shift with the medication event closest to it in time. */
+export function nearestEvents(shifts: RegimeShift[], meds: MedEvent[]): ShiftMatch[] {
+  return shifts.map((shift) => {
+    let event: MedEvent | null = null;
+    let lag: number | null = null;
+    meds.forEach((m) => {
+      const d = daysBetween(m.date, shift.date);
+      if (lag === null || Math.abs(d) < Math.abs(lag)) {
+        event = m;
+        lag = d;
+      }
+    });
+    return { shift, event, lag };
+  });
+}
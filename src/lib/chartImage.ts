@@ -0,0 +1,160 @@
+const SVG_NS = "http://www.w3.org/2000/svg";
+const PADDING = 16;
+const TITLE_SIZE = 16;
+const SUBTITLE_SIZE = 12;
+
+export type ChartImage = { svg: string; width: number; height: number };
+
+function escapeXml(s: string) {
+  return s
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function textElement(
+  text: string,
+  x: number,
+  y: number,
+  size: number,
+  color: string,
+  weight: string | number = "normal"
+) {
+  return `<text x="${x}" y="${y}" font-size="${size}" font-weight="${weight}" fill="${color}">${escapeXml(text)}</text>`;
+}
+
+const ignored = (el: Element) => el.closest("[data-export='ignore']") !== null;
+
+/**
+ * Chart SVGs inside `root`, re-positioned into one document. Brushes are
+ * dropped (the zoomed range is what they show) and so is anything marked
+ * `data-export="ignore"`.
+ */
+function chartSvgs(root: HTMLElement, box: DOMRect, dy: number) {
+  const out: string[] = [];
+  root.querySelectorAll("svg").forEach((svg) => {
+    if (svg.parentElement?.closest("svg") || ignored(svg)) return;
+    const r = svg.getBoundingClientRect();
+    if (!r.width || !r.height) return;
+
+    const clone = svg.cloneNode(true) as SVGSVGElement;
+    clone.querySelectorAll(".recharts-brush").forEach((b) => b.remove());
+    clone.removeAttribute("class");
+    clone.removeAttribute("style");
+    clone.setAttribute("x", String(r.left - box.left + PADDING));
+    clone.setAttribute("y", String(r.top - box.top + dy));
+    clone.setAttribute("width", String(r.width));
+    clone.setAttribute("height", String(r.height));
+    clone.setAttribute("overflow", "visible");
+    out.push(clone.outerHTML);
+  });
+  return out;
+}
+
+/** HTML text around the charts (legends, lane names), drawn where it appears on screen. */
+function htmlTexts(root: HTMLElement, box: DOMRect, dy: number) {
+  const out: string[] = [];
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    const parent = node.parentElement;
+    const text = node.textContent?.trim();
+    if (!parent || !text || parent.closest("svg, .recharts-tooltip-wrapper") || ignored(parent)) {
+      continue;
+    }
+
+    const range = document.createRange();
+    range.selectNodeContents(node);
+    const r = range.getBoundingClientRect();
+    if (!r.width || !r.height) continue;
+
+    const style = getComputedStyle(parent);
+    if (style.visibility === "hidden") continue;
+    const size = parseFloat(style.fontSize) || 12;
+    // The baseline sits roughly a fifth of the line box above its bottom
+    const baseline = r.bottom - r.height * 0.2;
+    out.push(
+      textElement(
+        text,
+        r.left - box.left + PADDING,
+        baseline - box.top + dy,
+        size,
+        style.color,
+        style.fontWeight
+      )
+    );
+  }
+  return out;
+}
+
+/**
+ * Serialises the charts rendered inside `root` into a standalone SVG with
+ * the title and subtitle on top.
+ */
+export function renderChartSvg(
+  root: HTMLElement,
+  meta: { title: string; subtitle?: string }
+): ChartImage {
+  const box = root.getBoundingClientRect();
+  const header = PADDING + TITLE_SIZE + (meta.subtitle ? SUBTITLE_SIZE + 6 : 0) + 12;
+  const width = Math.ceil(box.width + PADDING * 2);
+  const height = Math.ceil(header + box.height + PADDING);
+
+  const parts = [
+    `<rect width="100%" height="100%" fill="#ffffff"/>`,
+    textElement(meta.title, PADDING, PADDING + TITLE_SIZE, TITLE_SIZE, "#111827", 600),
+    meta.subtitle
+      ? textElement(
+          meta.subtitle,
+          PADDING,
+          PADDING + TITLE_SIZE + 6 + SUBTITLE_SIZE,
+          SUBTITLE_SIZE,
+          "#6b7280"
+        )
+      : "",
+    ...chartSvgs(root, box, header),
+    ...htmlTexts(root, box, header),
+  ];
+
+  const svg =
+    `<svg xmlns="${SVG_NS}" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" ` +
+    `font-family="ui-sans-serif, system-ui, sans-serif">${parts.join("")}</svg>`;
+  return { svg, width, height };
+}
+
+/** Rasterises an SVG at `scale` times its size, on a white background. */
+export function svgToPng(image: ChartImage, scale: number): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(new Blob([image.svg], { type: "image/svg+xml" }));
+    const img = new Image();
+    img.onload = () => {
+      const canvas = document.createElement("canvas");
+      canvas.width = Math.round(image.width * scale);
+      canvas.height = Math.round(image.height * scale);
+      const ctx = canvas.getContext("2d")!;
+      ctx.fillStyle = "#ffffff";
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      ctx.scale(scale, scale);
+      ctx.drawImage(img, 0, 0, image.width, image.height);
+      URL.revokeObjectURL(url);
+      canvas.toBlob((b) => (b ? resolve(b) : reject(new Error("PNG encoding failed"))), "image/png");
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("Could not render chart SVG"));
+    };
+    img.src = url;
+  });
+}
+
+/** File-name friendly version of a chart title. */
+export function slugify(title: string) {
+  return (
+    title
+      .toLowerCase()
+      .replace(/%/g, "pct")
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-|-$/g, "") || "chart"
+  );
+}
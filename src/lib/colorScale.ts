@@ -0,0 +1,22 @@
+/** Position of `v` between `min` and `max`, clamped to 0–1 (0.5 when the range is empty). */
+export function scaleUnit(v: number, min: number, max: number) {
+  if (!(max > min)) return 0.5;
+  return Math.min(1, Math.max(0, (v - min) / (max - min)));
+}
+
+/** Light-to-dark blue for heatmap cells, with a text colour that stays readable. */
+export function heatColor(t: number) {
+  return {
+    background: `hsl(217, 75%, ${Math.round(96 - t * 56)}%)`,
+    color: t > 0.6 ? "#ffffff" : "#1f2937",
+  };
+}
+
+/** Blue for negative, white at zero, red for positive, for -1…1 values such as correlations. */
+export function divergingColor(v: number) {
+  const t = Math.min(1, Math.abs(v));
+  return {
+    background: `hsl(${v < 0 ? 217 : 0}, 75%, ${Math.round(100 - t * 50)}%)`,
+    color: t > 0.6 ? "#ffffff" : "#1f2937",
+  };
+}
@@ -0,0 +1,155 @@
+import { addDays } from "./dates";
+import { SERIES_METRICS } from "./metrics";
+import { doseTimeline, medicationNames } from "./regimen";
+import { mean, tTwoSidedP } from "./stats";
+import type { CalendarDate, MedEvent } from "./types";
+
+/** Anything with one value per night that can be correlated. */
+export type Variable = {
+  key: string;
+  label: string;
+  format: (v: number) => string;
+  /** Value on the given night, or null when there is none. */
+  get: (date: CalendarDate) => number | null;
+  /** Nights left out because the medication log gives no dose for them. */
+  unknownDose?: number;
+};
+
+export type Correlation = {
+  n: number;
+  /** Pearson's r. */
+  r: number;
+  /** Spearman's rank correlation. */
+  rho: number;
+  /** Two-sided p-value for r = 0. */
+  p: number;
+};
+
+const fixed = (digits: number) => (v: number) => v.toFixed(digits);
+
+/** Stage durations and time in bed, i.e. the raw SleepRow fields, in chart-row keys. */
+const FIELD_VARIABLES = [
+  { key: "total", label: "Total hrs", format: fixed(2) },
+  { key: "core", label: "Core hrs", format: fixed(2) },
+  { key: "deep", label: "Deep hrs", format: fixed(2) },
+  { key: "rem", label: "REM hrs", format: fixed(2) },
+  { key: "awake", label: "Awake hrs", format: fixed(2) },
+  { key: "inBed", label: "In bed hrs", format: fixed(2) },
+];
+
+/**
+ * The sleep fields and charted series of the given chart rows, then the
+ * active dose of each medication (0 mg on nights it was not taken). Nights
+ * on a drug after a START or change with no dose have no value, as in the
+ * dose–response view, and are counted in `unknownDose`.
+ */
+export function nightVariables(rows: any[], meds: MedEvent[]): Variable[] {
+  const byDate = new Map<CalendarDate, any>(rows.map((r) => [r.date, r]));
+  const series = SERIES_METRICS.filter((m) => !FIELD_VARIABLES.some((f) => f.key === m.key));
+  const vars: Variable[] = [...FIELD_VARIABLES, ...series].map((m) => ({
+    ...m,
+    get: (date) => {
+      const v = byDate.get(date)?.[m.key];
+      return typeof v === "number" && isFinite(v) ? v : null;
+    },
+  }));
+
+  const dates = rows.map((r) => r.date as CalendarDate).sort();
+  const timeline = doseTimeline(meds, dates, NaN);
+  medicationNames(meds).forEach((name) => {
+    const doses = new Map(dates.map((d, i) => [d, (timeline[i][name] as number | null) ?? 0]));
+    const unknownDose = Array.from(doses.values()).filter((v) => Number.isNaN(v)).length;
+    vars.push({
+      key: `dose:${name}`,
+      label: `${name} dose (mg)`,
+      format: fixed(0),
+      get: (date) => {
+        const v = doses.get(date);
+        return v === undefined || Number.isNaN(v) ? null : v;
+      },
+      unknownDose,
+    });
+  });
+
+  return vars;
+}
+
+/**
+ * Pairs x on each night with y `lag` nights later (dates, not row
+ * positions, so gaps in the data are respected).
+ */
+export function pairedValues(x: Variable, y: Variable, dates: CalendarDate[], lag = 0) {
+  const xs: number[] = [];
+  const ys: number[] = [];
+  const pairs: { date: CalendarDate; x: number; y: number }[] = [];
+  dates.forEach((date) => {
+    const a = x.get(date);
+    const b = y.get(addDays(date, lag));
+    if (a === null || b === null) return;
+    xs.push(a);
+    ys.push(b);
+    pairs.push({ date, x: a, y: b });
+  });
+  return { xs, ys, pairs };
+}
+
+export function pearson(xs: number[], ys: number[]) {
+  const n = Math.min(xs.length, ys.length);
+  if (n < 3) return NaN;
+  const mx = mean(xs);
+  const my = mean(ys);
+  let sxy = 0;
+  let sxx = 0;
+  let syy = 0;
+  for (let i = 0; i < n; i++) {
+    sxy += (xs[i] - mx) * (ys[i] - my);
+    sxx += (xs[i] - mx) ** 2;
+    syy += (ys[i] - my) ** 2;
+  }
+  return sxx > 0 && syy > 0 ? sxy / Math.sqrt(sxx * syy) : NaN;
+}
+
+/** Ranks starting at 1, with tied values sharing their average rank. */
+function ranks(xs: number[]) {
+  const order = xs.map((v, i) => [v, i] as const).sort((a, b) => a[0] - b[0]);
+  const out = new Array<number>(xs.length);
+  for (let i = 0; i < order.length; ) {
+    let j = i;
+    while (j + 1 < order.length && order[j + 1][0] === order[i][0]) j++;
+    for (let k = i; k <= j; k++) out[order[k][1]] = (i + j) / 2 + 1;
+    i = j + 1;
+  }
+  return out;
+}
+
+export function spearman(xs: number[], ys: number[]) {
+  return pearson(ranks(xs), ranks(ys));
+}
+
+export function correlate(xs: number[], ys: number[]): Correlation {
+  const n = xs.length;
+  const r = pearson(xs, ys);
+  let p = NaN;
+  if (isFinite(r)) {
+    p = Math.abs(r) >= 1 ? 0 : tTwoSidedP(r * Math.sqrt((n - 2) / (1 - r * r)), n - 2);
+  }
+  return { n, r, rho: spearman(xs, ys), p };
+}
+
+/** Correlation of x with y 0…maxLag nights later. */
+export function lagCorrelations(x: Variable, y: Variable, dates: CalendarDate[], maxLag = 14) {
+  return Array.from({ length: maxLag + 1 }, (_, lag) => {
+    const { xs, ys } = pairedValues(x, y, dates, lag);
+    return { lag, ...correlate(xs, ys) };
+  });
+}
+
+/** Pearson's r for every pair of variables on the same night. */
+export function correlationMatrix(vars: Variable[], dates: CalendarDate[]) {
+  return vars.map((a) =>
+    vars.map((b) => {
+      const { xs, ys } = pairedValues(a, b, dates);
+      return correlate(xs, ys);
+    })
+  );
+}
@@ -0,0 +1,61 @@
+import { compareDates } from "./dates";
+import type { NightMetric, SeriesMetric } from "./metrics";
+import type { CalendarDate, CovariateRow } from "./types";
+
+/** Chart-row key of an imported column, kept apart from the built-in series. */
+export const covariateKey = (name: string) => `cov:${name}`;
+
+/** Values of a few hundred or more (steps) need no decimals. */
+const formatCovariate = (v: number) => (Math.abs(v) >= 100 ? v.toFixed(0) : v.toFixed(1));
+
+/** Column names across all rows, in first-seen order. */
+export function covariateNames(rows: CovariateRow[]) {
+  const out = new Set<string>();
+  rows.forEach((r) => Object.keys(r.values).forEach((k) => out.add(k)));
+  return Array.from(out);
+}
+
+export function covariatesByDate(rows: CovariateRow[]) {
+  return new Map<CalendarDate, Record<string, number>>(rows.map((r) => [r.date, r.values]));
+}
+
+/** A date's values under their chart-row keys. */
+export function covariateFields(values: Record<string, number> | undefined) {
+  return Object.fromEntries(
+    Object.entries(values ?? {}).map(([name, v]) => [covariateKey(name), v])
+  );
+}
+
+/** One series per imported column, for chart overlays. */
+export function covariateSeries(rows: CovariateRow[]): SeriesMetric[] {
+  return covariateNames(rows).map((name) => ({
+    key: covariateKey(name),
+    label: name,
+    format: formatCovariate,
+  }));
+}
+
+/**
+ * One metric per imported column for the before/after comparisons. A
+ * night takes the value recorded for the date it ends on.
+ */
+export function covariateMetrics(rows: CovariateRow[]): NightMetric[] {
+  const byDate = covariatesByDate(rows);
+  return covariateNames(rows).map((name) => ({
+    key: covariateKey(name),
+    label: name,
+    get: (r) => byDate.get(r.date)?.[name] ?? NaN,
+  }));
+}
+
+/**
+ * Adds `incoming` to `rows`. Columns are merged per date, with incoming
+ * values replacing existing ones for the same date and column.
+ */
+export function mergeCovariates(rows: CovariateRow[], incoming: CovariateRow[]): CovariateRow[] {
+  const byDate = new Map<CalendarDate, Record<string, number>>();
+  [...rows, ...incoming].forEach((r) =>
+    byDate.set(r.date, { ...byDate.get(r.date), ...r.values })
+  );
+  return Array.from(byDate, ([date, values]) => ({ date, values })).sort(compareDates);
+}
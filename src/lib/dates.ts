@@ -0,0 +1,82 @@
+import type { CalendarDate, ZonedTime } from "./types";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const pad = (n: number, width = 2) => String(n).padStart(width, "0");
+
+function fromUtc(ms: number): CalendarDate {
+  return new Date(ms).toISOString().slice(0, 10) as CalendarDate;
+}
+
+/** Midnight UTC of the date, for arithmetic and numeric chart axes. */
+export function calendarDateToUtc(d: CalendarDate) {
+  return Date.UTC(+d.slice(0, 4), +d.slice(5, 7) - 1, +d.slice(8, 10));
+}
+
+/**
+ * Reads the calendar date a value names. ISO strings keep their written date
+ * (so "2024-01-01" and "2024-01-01T23:00-05:00" both give 2024-01-01); other
+ * formats the browser understands are read in local time.
+ */
+export function parseCalendarDate(v: unknown): CalendarDate | null {
+  const s = String(v ?? "").trim();
+  const iso = s.match(/^(\d{4})[-/](\d{1,2})[-/](\d{1,2})(?!\d)/);
+  if (iso) {
+    const ms = Date.UTC(+iso[1], +iso[2] - 1, +iso[3]);
+    const d = fromUtc(ms);
+    // Reject overflow such as 2024-02-31
+    return isNaN(ms) || +d.slice(5, 7) !== +iso[2] ? null : d;
+  }
+  if (!s) return null;
+  const local = new Date(s);
+  return isNaN(local.getTime()) ? null : calendarDateOf(local);
+}
+
+/** The date a Date object shows in the browser's zone, e.g. from a date picker. */
+export function calendarDateOf(d: Date): CalendarDate {
+  return `${pad(d.getFullYear(), 4)}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}` as CalendarDate;
+}
+
+/** The date on the wall clock where a time was recorded, not in the browser's zone. */
+export function zonedCalendarDate(t: ZonedTime): CalendarDate {
+  return fromUtc(t.at.getTime() + t.utcOffset * 60000);
+}
+
+/** Local midnight of the date, for components that work with Date objects. */
+export function toLocalDate(d: CalendarDate) {
+  return new Date(+d.slice(0, 4), +d.slice(5, 7) - 1, +d.slice(8, 10));
+}
+
+export function today(): CalendarDate {
+  return calendarDateOf(new Date());
+}
+
+export function addDays(d: CalendarDate, n: number): CalendarDate {
+  return fromUtc(calendarDateToUtc(d) + n * DAY);
+}
+
+/** Whole days from `a` to `b` (negative when `b` is earlier). */
+export function daysBetween(a: CalendarDate, b: CalendarDate) {
+  return Math.round((calendarDateToUtc(b) - calendarDateToUtc(a)) / DAY);
+}
+
+/** 0 = Sunday … 6 = Saturday. */
+export function dayOfWeek(d: CalendarDate) {
+  return new Date(calendarDateToUtc(d)).getUTCDay();
+}
+
+/** "YYYY-MM" */
+export function calendarMonth(d: CalendarDate) {
+  return d.slice(0, 7);
+}
+
+export const compareDates = (a: { date: CalendarDate }, b: { date: CalendarDate }) =>
+  a.date < b.date ? -1 : a.date > b.date ? 1 : 0;
+
+/**
+ * Dates saved by earlier versions were Date objects at UTC midnight; newer
+ * ones are already calendar dates.
+ */
+export function restoreCalendarDate(v: CalendarDate | Date): CalendarDate {
+  return v instanceof Date ? fromUtc(v.getTime()) : v;
+}
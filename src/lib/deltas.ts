@@ -0,0 +1,91 @@
+import { addDays } from "./dates";
+import type { CalendarDate, MedEvent, SleepRow } from "./types";
+
+export type DeltaWindowOptions = {
+  /** Nights before the change to average. */
+  preDays: number;
+  /** Nights after the change (and after the washout) to average. */
+  postDays: number;
+  /** Nights right after the change to skip before the post window starts. */
+  lagDays: number;
+  /** Shorten windows so they never reach past a neighbouring event. */
+  clipAtNeighbors: boolean;
+  /** Windows with fewer nights than this are flagged. */
+  minNights: number;
+};
+
+export const DEFAULT_DELTA_WINDOWS: DeltaWindowOptions = {
+  preDays: 30,
+  postDays: 30,
+  lagDays: 0,
+  clipAtNeighbors: false,
+  minNights: 7,
+};
+
+export type DeltaWindow = {
+  m: MedEvent;
+  pre: SleepRow[];
+  post: SleepRow[];
+  warnings: string[];
+};
+
+function inRange(rows: SleepRow[], from: CalendarDate, to: CalendarDate) {
+  return rows.filter((r) => r.date >= from && r.date <= to);
+}
+
+/**
+ * Builds the before/after night sets for each medication event. Events on
+ * the same day are treated as one change; any other event inside a window
+ * either clips it (when `clipAtNeighbors` is set) or produces a warning.
+ */
+export function deltaWindows(
+  meds: MedEvent[],
+  data: SleepRow[],
+  opts: DeltaWindowOptions
+): DeltaWindow[] {
+  const eventDays = Array.from(new Set(meds.map((m) => m.date))).sort();
+
+  return meds.map((m) => {
+    let preFrom = addDays(m.date, -opts.preDays);
+    const preTo = addDays(m.date, -1);
+    const postFrom = addDays(m.date, 1 + opts.lagDays);
+    let postTo = addDays(m.date, opts.lagDays + opts.postDays);
+    const warnings: string[] = [];
+
+    const key = m.date;
+    const prev = [...eventDays].reverse().find((d) => d < key);
+    const next = eventDays.find((d) => d > key);
+
+    const sameDay = meds.filter((o) => o !== m && o.date === key);
+    if (sameDay.length) {
+      warnings.push(`Same day as ${sameDay.map((o) => o.label).join(", ")}`);
+    }
+
+    if (opts.clipAtNeighbors) {
+      if (prev && prev >= preFrom) preFrom = addDays(prev, 1);
+      if (next && next <= postTo) postTo = addDays(next, -1);
+    } else {
+      const overlapping = eventDays.filter(
+        (d) => d !== key && d >= preFrom && d <= postTo
+      );
+      if (overlapping.length) {
+        warnings.push(
+          `Window overlaps ${overlapping.length} other change${
+            overlapping.length === 1 ? "" : "s"
+          } (${overlapping.join(", ")})`
+        );
+      }
+    }
+
+    const pre = inRange(data, preFrom, preTo);
+    const post = postFrom <= postTo ? inRange(data, postFrom, postTo) : [];
+
+    if (pre.length < opts.minNights || post.length < opts.minNights) {
+      warnings.push(
+        `Too few nights (${pre.length} before / ${post.length} after, minimum ${opts.minNights})`
+      );
+    }
+
+    return { m, pre, post, warnings };
+  });
+}
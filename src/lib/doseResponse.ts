@@ -0,0 +1,70 @@
+import { doseTimeline } from "./regimen";
+import { linearFit, mean, stdev, type LinearFit } from "./stats";
+import type { CalendarDate, MedEvent, SleepRow } from "./types";
+
+export type DosePoint = { dose: number; value: number; dateStr: CalendarDate };
+
+export type DoseLevel = {
+  dose: number;
+  n: number;
+  mean: number;
+  sd: number;
+  min: number;
+  max: number;
+};
+
+/**
+ * Pairs each night with the active dose of `medication` that night. Nights
+ * off the drug count as 0 mg when `includeOff` is set and are dropped
+ * otherwise. Nights on it after a START or change with no dose are left
+ * out and counted in `unknownDose`, so they are not read as 0 mg.
+ */
+export function nightsWithDose(
+  rows: SleepRow[],
+  meds: MedEvent[],
+  medication: string,
+  includeOff: boolean
+) {
+  const timeline = doseTimeline(meds, rows.map((r) => r.date), NaN);
+  let unknownDose = 0;
+
+  const nights = rows.flatMap((r, i) => {
+    const dose = timeline[i][medication] as number | null | undefined;
+    if (dose === null || dose === undefined) {
+      return includeOff ? [{ row: r, dose: 0 }] : [];
+    }
+    if (Number.isNaN(dose)) {
+      unknownDose++;
+      return [];
+    }
+    return [{ row: r, dose }];
+  });
+
+  return { nights, unknownDose };
+}
+
+export function doseLevels(points: DosePoint[]): DoseLevel[] {
+  const byDose = new Map<number, number[]>();
+  points.forEach((p) => {
+    if (!byDose.has(p.dose)) byDose.set(p.dose, []);
+    byDose.get(p.dose)!.push(p.value);
+  });
+
+  return Array.from(byDose.entries())
+    .sort((a, b) => a[0] - b[0])
+    .map(([dose, values]) => ({
+      dose,
+      n: values.length,
+      mean: mean(values),
+      sd: values.length > 1 ? stdev(values) : 0,
+      min: Math.min(...values),
+      max: Math.max(...values),
+    }));
+}
+
+export function doseFit(points: DosePoint[]): LinearFit | null {
+  return linearFit(
+    points.map((p) => p.dose),
+    points.map((p) => p.value)
+  );
+}
@@ -0,0 +1,256 @@
+import Papa from "papaparse";
+import { covariateKey } from "./covariates";
+import type { DeltaWindow } from "./deltas";
+import type { TagSplit } from "./journal";
+import { metricValues, NIGHT_METRICS, type NightMetric } from "./metrics";
+import { mean, welchTest } from "./stats";
+import type { SleepRow } from "./types";
+
+export type ExportFormat = "csv" | "json";
+
+export type ExportColumn = {
+  key: string;
+  label: string;
+  unit?: string;
+  description?: string;
+};
+
+/** A computed table together with what is needed to reproduce it. */
+export type ExportTable = {
+  /** File name stem, e.g. "nights". */
+  name: string;
+  title: string;
+  /** Settings the rows were computed with (filters, windows, …). */
+  parameters: Record<string, unknown>;
+  columns: ExportColumn[];
+  rows: Record<string, unknown>[];
+};
+
+/** Bedtime and midpoint are kept around midnight so evening and early-morning times average sensibly. */
+const AROUND_MIDNIGHT_NOTE =
+  "hours from midnight, from -12 to 12; negative is before midnight (-1.5 is 22:30)";
+const WAKE_NOTE = "hours after midnight, from 0 to 24";
+
+export function nightColumns(rollK: number): ExportColumn[] {
+  const rolling = (key: string, of: string, unit?: string): ExportColumn => ({
+    key,
+    label: `${of} (${rollK}-night rolling mean)`,
+    unit,
+    description: `Mean of the last ${rollK} nights, skipping nights without a value`,
+  });
+
+  return [
+    { key: "date", label: "Date", description: "Sleep day (YYYY-MM-DD), the date the night ends on" },
+    { key: "source", label: "Source", description: "Device or app whose record was kept" },
+    { key: "totalSleep", label: "Total sleep", unit: "h" },
+    { key: "core", label: "Core", unit: "h" },
+    { key: "deep", label: "Deep", unit: "h" },
+    { key: "rem", label: "REM", unit: "h" },
+    { key: "awake", label: "Awake", unit: "h" },
+    { key: "inBed", label: "Time in bed", unit: "h", description: "As recorded, else sleep onset to final wake" },
+    { key: "remPct", label: "REM share", unit: "% of total sleep" },
+    { key: "deepPct", label: "Deep share", unit: "% of total sleep" },
+    { key: "efficiency", label: "Sleep efficiency", unit: "%", description: "Total sleep ÷ time in bed" },
+    { key: "bedtime", label: "Bedtime", unit: "h", description: AROUND_MIDNIGHT_NOTE },
+    { key: "wake", label: "Wake time", unit: "h", description: WAKE_NOTE },
+    { key: "midpoint", label: "Sleep midpoint", unit: "h", description: AROUND_MIDNIGHT_NOTE },
+    { key: "sri", label: "Sleep Regularity Index", unit: "0–100" },
+    { key: "naps", label: "Naps", unit: "count" },
+    { key: "tags", label: "Journal tags", description: "Joined with \"; \"" },
+    { key: "note", label: "Journal note" },
+    rolling("remRoll", "REM share", "%"),
+    rolling("deepRoll", "Deep share", "%"),
+    rolling("totalRoll", "Total sleep", "h"),
+    rolling("awakeRoll", "Awake", "h"),
+    rolling("efficiencyRoll", "Sleep efficiency", "%"),
+    rolling("bedtimeRoll", "Bedtime", "h"),
+    rolling("wakeRoll", "Wake time", "h"),
+    rolling("midpointRoll", "Sleep midpoint", "h"),
+    rolling("sriRoll", "Sleep Regularity Index"),
+  ];
+}
+
+export const MONTHLY_COLUMNS: ExportColumn[] = [
+  { key: "month", label: "Month", description: "YYYY-MM" },
+  { key: "remPct", label: "REM share", unit: "% of total sleep", description: "Mean over nights with sleep" },
+  { key: "deepPct", label: "Deep share", unit: "% of total sleep", description: "Mean over nights with sleep" },
+  { key: "total", label: "Total sleep", unit: "h", description: "Mean per night" },
+  { key: "awake", label: "Awake", unit: "h", description: "Mean per night" },
+  {
+    key: "efficiency",
+    label: "Sleep efficiency",
+    unit: "%",
+    description: "Mean over nights with a known time in bed",
+  },
+  { key: "bedtime", label: "Bedtime", unit: "h", description: `Mean, ${AROUND_MIDNIGHT_NOTE}` },
+  { key: "wake", label: "Wake time", unit: "h", description: `Mean, ${WAKE_NOTE}` },
+  { key: "midpoint", label: "Sleep midpoint", unit: "h", description: `Mean, ${AROUND_MIDNIGHT_NOTE}` },
+  {
+    key: "socialJetlag",
+    label: "Social jetlag",
+    unit: "h",
+    description: "Mean weekend midpoint minus mean weekday midpoint",
+  },
+  { key: "sri", label: "Sleep Regularity Index", unit: "0–100" },
+  { key: "n", label: "Nights tracked", unit: "count" },
+  { key: "naps", label: "Naps", unit: "count" },
+];
+
+/** One column per imported daily covariate, under its chart-row key. */
+export function covariateColumns(names: string[], description: string): ExportColumn[] {
+  return names.map((name) => ({ key: covariateKey(name), label: name, description }));
+}
+
+/**
+ * Before/after means, delta and Welch test columns for each metric. Imported
+ * covariates carry no unit.
+ */
+function metricDeltaColumns(
+  metrics: NightMetric[],
+  before: string,
+  after: string,
+  delta: string
+): ExportColumn[] {
+  return metrics.flatMap((m) => {
+    const unit = !NIGHT_METRICS.includes(m) ? undefined : m.label.endsWith("%") ? "%" : "h";
+    return [
+      { key: `${m.key}Before`, label: `${m.label} ${before}`, unit, description: "Mean" },
+      { key: `${m.key}After`, label: `${m.label} ${after}`, unit, description: "Mean" },
+      { key: `${m.key}Delta`, label: `Δ ${m.label}`, unit, description: delta },
+      { key: `${m.key}CiLow`, label: `Δ ${m.label} 95% CI low`, unit },
+      { key: `${m.key}CiHigh`, label: `Δ ${m.label} 95% CI high`, unit },
+      { key: `${m.key}P`, label: `Δ ${m.label} p`, description: "Welch two-sided t-test" },
+    ];
+  });
+}
+
+function metricDeltaValues(metrics: NightMetric[], pre: SleepRow[], post: SleepRow[]) {
+  const row: Record<string, unknown> = {};
+  metrics.forEach((metric) => {
+    const before = metricValues(pre, metric);
+    const after = metricValues(post, metric);
+    const test = welchTest(before, after);
+    row[`${metric.key}Before`] = mean(before);
+    row[`${metric.key}After`] = mean(after);
+    row[`${metric.key}Delta`] = mean(after) - mean(before);
+    row[`${metric.key}CiLow`] = test?.ciLow ?? null;
+    row[`${metric.key}CiHigh`] = test?.ciHigh ?? null;
+    row[`${metric.key}P`] = test?.p ?? null;
+  });
+  return row;
+}
+
+/**
+ * One row per medication event with, for each night metric, the before and
+ * after means, their difference and the Welch test behind the delta column.
+ */
+export function deltaTableRows(windows: DeltaWindow[], metrics: NightMetric[] = NIGHT_METRICS) {
+  const columns: ExportColumn[] = [
+    { key: "date", label: "Date" },
+    { key: "label", label: "Medication change" },
+    { key: "medication", label: "Medication" },
+    { key: "dose", label: "Dose", unit: "mg" },
+    { key: "action", label: "Action", description: "START, STOP or CHANGE" },
+    { key: "nightsBefore", label: "Nights before", unit: "count" },
+    { key: "nightsAfter", label: "Nights after", unit: "count" },
+    { key: "warnings", label: "Warnings", description: "Joined with \"; \"" },
+    ...metricDeltaColumns(metrics, "before", "after", "After minus before"),
+  ];
+
+  const rows = windows.map(({ m, pre, post, warnings }) => ({
+    date: m.date,
+    label: m.label,
+    medication: m.medication,
+    dose: m.dose,
+    action: m.action,
+    nightsBefore: pre.length,
+    nightsAfter: post.length,
+    warnings: warnings.join("; "),
+    ...metricDeltaValues(metrics, pre, post),
+  }));
+
+  return { columns, rows };
+}
+
+/** One row per journal tag: untagged nights as "before", tagged as "after". */
+export function tagTableRows(splits: TagSplit[], metrics: NightMetric[] = NIGHT_METRICS) {
+  const columns: ExportColumn[] = [
+    { key: "tag", label: "Tag" },
+    { key: "nightsTagged", label: "Tagged nights", unit: "count" },
+    { key: "nightsUntagged", label: "Untagged nights", unit: "count" },
+    ...metricDeltaColumns(metrics, "untagged", "tagged", "Tagged minus untagged"),
+  ];
+
+  const rows = splits.map(({ tag, tagged, untagged }) => ({
+    tag,
+    nightsTagged: tagged.length,
+    nightsUntagged: untagged.length,
+    ...metricDeltaValues(metrics, untagged, tagged),
+  }));
+
+  return { columns, rows };
+}
+
+/** Missing and non-finite numbers export as empty (CSV) or null (JSON). */
+function clean(v: unknown) {
+  if (typeof v === "number" && !isFinite(v)) return null;
+  return v ?? null;
+}
+
+function describe(c: ExportColumn) {
+  return [c.label, c.unit && `[${c.unit}]`, c.description && `— ${c.description}`]
+    .filter(Boolean)
+    .join(" ");
+}
+
+/**
+ * CSV with the metadata in leading "#" comment lines, which R
+ * (`read.csv(f, comment.char = "#")`) and pandas (`comment="#"`) skip.
+ */
+export function tableToCsv(t: ExportTable, exportedAt = new Date()) {
+  const header = [
+    `# ${t.title}`,
+    `# Exported ${exportedAt.toISOString()}`,
+    ...Object.entries(t.parameters).map(([k, v]) => `# ${k}: ${JSON.stringify(v)}`),
+    ...t.columns.map((c) => `# column ${c.key}: ${describe(c)}`),
+  ];
+  const body = Papa.unparse({
+    fields: t.columns.map((c) => c.key),
+    data: t.rows.map((r) => t.columns.map((c) => clean(r[c.key]) ?? "")),
+  });
+  return `${header.join("\n")}\n${body}\n`;
+}
+
+export function tableToJson(t: ExportTable, exportedAt = new Date()) {
+  return JSON.stringify(
+    {
+      title: t.title,
+      exportedAt: exportedAt.toISOString(),
+      parameters: t.parameters,
+      columns: t.columns,
+      rows: t.rows.map((r) =>
+        Object.fromEntries(t.columns.map((c) => [c.key, clean(r[c.key])]))
+      ),
+    },
+    null,
+    2
+  );
+}
+
+export function downloadBlob(fileName: string, blob: Blob) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+export function downloadText(fileName: string, text: string, type: string) {
+  downloadBlob(fileName, new Blob([text], { type }));
+}
+
+export function downloadTable(t: ExportTable, format: ExportFormat) {
+  if (format === "csv") downloadText(`${t.name}.csv`, tableToCsv(t), "text/csv");
+  else downloadText(`${t.name}.json`, tableToJson(t), "application/json");
+}
@@ -0,0 +1,45 @@
+export type ImportIssue = { file: string; row: number; reason: string };
+
+export type ColumnMatch = { field: string; column: string | null };
+
+/** What an import found, shown to the user before the data replaces what is loaded. */
+export type ImportReport = {
+  files: string[];
+  accepted: number;
+  rejected: ImportIssue[];
+  unparseableDates: string[];
+  columns: ColumnMatch[];
+  unknownColumns: string[];
+  /** Per field, how many accepted rows had a missing or non-numeric value. */
+  coerced: { field: string; count: number }[];
+  duplicateDates: string[];
+  /** Values read one way that could also have been meant another. */
+  ambiguous: ImportIssue[];
+};
+
+export function emptyReport(files: string[] = []): ImportReport {
+  return {
+    files,
+    accepted: 0,
+    rejected: [],
+    unparseableDates: [],
+    columns: [],
+    unknownColumns: [],
+    coerced: [],
+    duplicateDates: [],
+    ambiguous: [],
+  };
+}
+
+export function countCoerced(report: ImportReport, field: string) {
+  const existing = report.coerced.find((c) => c.field === field);
+  if (existing) existing.count++;
+  else report.coerced.push({ field, count: 1 });
+}
+
+export function findDuplicates(keys: string[]) {
+  const seen = new Set<string>();
+  const dupes = new Set<string>();
+  keys.forEach((k) => (seen.has(k) ? dupes.add(k) : seen.add(k)));
+  return Array.from(dupes).sort();
+}
@@ -0,0 +1,505 @@
+import JSZip from "jszip";
+import Papa from "papaparse";
+import {
+  findHealthExport,
+  parseAppleHealthZipEntry,
+  type HealthSegment,
+} from "./appleHealth";
+import {
+  countCoerced,
+  emptyReport,
+  findDuplicates,
+  type ColumnMatch,
+  type ImportReport,
+} from "./importReport";
+import { compareDates, parseCalendarDate } from "./dates";
+import { medLabel, parseMedLabel } from "./regimen";
+import { isWearableJsonName, parseWearableJson } from "./wearables";
+import { parseZonedTime } from "./timing";
+import type { CovariateRow, MedAction, MedEvent, SleepRow } from "./types";
+
+/** A CSV file's name and contents, kept so it can be re-parsed with a new mapping. */
+export type RawFile = { name: string; text: string };
+
+export type DurationUnit = "hours" | "minutes" | "seconds";
+
+export type FieldMapping = { column: string | null; unit?: DurationUnit };
+
+/** Which source column feeds each field, keyed by field name. */
+export type ColumnMapping = Record<string, FieldMapping>;
+
+export type SleepImport = {
+  rows: SleepRow[];
+  /** Accepted rows where at least one numeric field was coerced to 0. */
+  incomplete: Set<SleepRow>;
+  report: ImportReport;
+  files: RawFile[];
+  mapping: ColumnMapping;
+  /** Set for Apple Health exports, which are re-grouped rather than re-mapped. */
+  appleHealth?: { segments: HealthSegment[]; cutoffHour: number; skipped: number };
+};
+
+export type MedImport = {
+  events: MedEvent[];
+  report: ImportReport;
+  /** Set for CSV imports only; TXT logs have no columns to map. */
+  files?: RawFile[];
+  mapping?: ColumnMapping;
+};
+
+export type CovariateImport = {
+  rows: CovariateRow[];
+  report: ImportReport;
+};
+
+export type MappableField = {
+  field: string;
+  label: string;
+  aliases: string[];
+  /** Duration fields can be given in hours, minutes or seconds. */
+  duration?: boolean;
+};
+
+export const SLEEP_FIELDS: MappableField[] = [
+  { field: "date", label: "Date", aliases: ["Date/Time", "Date", "date"] },
+  {
+    field: "totalSleep",
+    label: "Total sleep",
+    aliases: ["Total Sleep (hr)", "Asleep (hr)", "TotalSleep"],
+    duration: true,
+  },
+  { field: "core", label: "Core", aliases: ["Core (hr)", "Core"], duration: true },
+  { field: "deep", label: "Deep", aliases: ["Deep (hr)", "Deep"], duration: true },
+  { field: "rem", label: "REM", aliases: ["REM (hr)", "REM"], duration: true },
+  { field: "awake", label: "Awake", aliases: ["Awake (hr)", "Awake"], duration: true },
+  { field: "inBed", label: "In bed", aliases: ["In Bed (hr)", "InBed", "In Bed"], duration: true },
+  { field: "onset", label: "Sleep start", aliases: ["Start", "start"] },
+  { field: "offset", label: "Sleep end", aliases: ["End", "end"] },
+  { field: "source", label: "Source", aliases: ["Sources", "Source", "source"] },
+];
+
+export const MED_FIELDS: MappableField[] = [
+  { field: "date", label: "Date", aliases: ["date", "Date"] },
+  { field: "medication", label: "Medication", aliases: ["medication", "Medication"] },
+  { field: "dose", label: "Dose (mg)", aliases: ["dose_mg", "DoseMg", "dose"] },
+  { field: "action", label: "Action", aliases: ["action", "Action"] },
+];
+
+const UNIT_DIVISOR: Record<DurationUnit, number> = {
+  hours: 1,
+  minutes: 60,
+  seconds: 3600,
+};
+
+/** Parses a decimal (comma or dot); missing or non-numeric values become 0 and are flagged. */
+function parseNumber(v: any): { value: number; coerced: boolean } {
+  const n = parseFloat(String(v ?? "").replace(",", "."));
+  return isFinite(n) ? { value: n, coerced: false } : { value: 0, coerced: true };
+}
+
+type NumericField = "totalSleep" | "core" | "deep" | "rem" | "awake";
+
+const NUMERIC_FIELDS: NumericField[] = ["totalSleep", "core", "deep", "rem", "awake"];
+
+/** Picks, for each field, the first alias present in the file's headers. */
+export function defaultMapping(fields: MappableField[], headers: string[]): ColumnMapping {
+  const out: ColumnMapping = {};
+  fields.forEach((f) => {
+    out[f.field] = {
+      column: f.aliases.find((a) => headers.includes(a)) ?? null,
+      ...(f.duration ? { unit: "hours" as const } : {}),
+    };
+  });
+  return out;
+}
+
+/** Header row of a CSV text, without parsing the body. */
+function headersOf(text: string): string[] {
+  const parsed = Papa.parse(text, { header: true, preview: 1 });
+  return parsed.meta?.fields ?? [];
+}
+
+/** Union of the header rows of all files, in first-seen order. */
+export function csvHeaders(files: RawFile[]): string[] {
+  const out: string[] = [];
+  files.forEach((f) =>
+    headersOf(f.text).forEach((h) => {
+      if (h && !out.includes(h)) out.push(h);
+    })
+  );
+  return out;
+}
+
+function columnOf(mapping: ColumnMapping, field: string) {
+  return mapping[field]?.column ?? null;
+}
+
+/** Merges per-file column matches, keeping any column found in at least one file. */
+function mergeColumns(report: ImportReport, matches: ColumnMatch[], unknown: string[]) {
+  matches.forEach((m) => {
+    const existing = report.columns.find((c) => c.field === m.field);
+    if (!existing) report.columns.push({ ...m });
+    else if (!existing.column) existing.column = m.column;
+  });
+  unknown.forEach((u) => {
+    if (!report.unknownColumns.includes(u)) report.unknownColumns.push(u);
+  });
+}
+
+type NormalizeResult =
+  | { row: SleepRow; coerced: NumericField[] }
+  | { error: string; badDate?: string };
+
+function normalizeRow(row: any, mapping: ColumnMapping): NormalizeResult {
+  const dateCol = columnOf(mapping, "date");
+  const dateStr = dateCol ? row[dateCol] : undefined;
+  if (!dateStr) return { error: "Missing date" };
+
+  const date = parseCalendarDate(dateStr);
+  if (!date) return { error: `Unparseable date "${dateStr}"`, badDate: String(dateStr) };
+
+  const coerced: NumericField[] = [];
+  const values = {} as Record<NumericField, number>;
+  NUMERIC_FIELDS.forEach((f) => {
+    const col = columnOf(mapping, f);
+    const parsed = parseNumber(col ? row[col] : undefined);
+    values[f] = parsed.value / UNIT_DIVISOR[mapping[f]?.unit ?? "hours"];
+    if (parsed.coerced) coerced.push(f);
+  });
+
+  const onsetCol = columnOf(mapping, "onset");
+  const offsetCol = columnOf(mapping, "offset");
+  const onset = onsetCol ? parseZonedTime(row[onsetCol]) : null;
+  const offset = offsetCol ? parseZonedTime(row[offsetCol]) : null;
+  const sourceCol = columnOf(mapping, "source");
+  const source = sourceCol ? String(row[sourceCol] ?? "").trim() : "";
+  // Many exports have no in-bed column, so a missing value is not flagged
+  const inBedCol = columnOf(mapping, "inBed");
+  const inBed = inBedCol ? parseNumber(row[inBedCol]) : null;
+  const inBedHours =
+    inBed && !inBed.coerced && inBed.value > 0
+      ? inBed.value / UNIT_DIVISOR[mapping.inBed?.unit ?? "hours"]
+      : null;
+
+  return {
+    row: {
+      date,
+      ...values,
+      ...(inBedHours !== null ? { inBed: inBedHours } : {}),
+      onset,
+      offset,
+      ...(source ? { source } : {}),
+    },
+    coerced,
+  };
+}
+
+/** Column report for one file: mapped columns it actually has, and those it has left over. */
+function reportColumns(
+  report: ImportReport,
+  fields: MappableField[],
+  mapping: ColumnMapping,
+  headers: string[]
+) {
+  const matches = fields.map((f) => {
+    const col = columnOf(mapping, f.field);
+    return { field: f.field, column: col && headers.includes(col) ? col : null };
+  });
+  const used = matches.map((m) => m.column).filter(Boolean) as string[];
+  mergeColumns(
+    report,
+    matches,
+    headers.filter((h) => !used.includes(h))
+  );
+}
+
+function parseSleepText(file: RawFile, into: SleepImport) {
+  const parsed = Papa.parse(file.text, { header: true, skipEmptyLines: true });
+  const headers: string[] = parsed.meta?.fields ?? [];
+
+  into.report.files.push(file.name);
+  reportColumns(into.report, SLEEP_FIELDS, into.mapping, headers);
+
+  (parsed.data as any[]).forEach((r, i) => {
+    const result = normalizeRow(r, into.mapping);
+    if ("error" in result) {
+      into.report.rejected.push({ file: file.name, row: i + 1, reason: result.error });
+      if (result.badDate !== undefined) into.report.unparseableDates.push(result.badDate);
+      return;
+    }
+    into.rows.push(result.row);
+    if (result.coerced.length) into.incomplete.add(result.row);
+    result.coerced.forEach((f) => countCoerced(into.report, f));
+  });
+}
+
+function finishSleepImport(imp: SleepImport): SleepImport {
+  imp.rows.sort(compareDates);
+  imp.report.accepted = imp.rows.length;
+  imp.report.duplicateDates = findDuplicates(imp.rows.map((r) => r.date));
+  return imp;
+}
+
+/**
+ * Parses sleep CSVs with the given mapping, or with the built-in header
+ * aliases when none is given.
+ */
+export function parseSleepFiles(files: RawFile[], mapping?: ColumnMapping): SleepImport {
+  const imp: SleepImport = {
+    rows: [],
+    incomplete: new Set(),
+    report: emptyReport(),
+    files,
+    mapping: mapping ?? defaultMapping(SLEEP_FIELDS, csvHeaders(files)),
+  };
+  files.forEach((f) => parseSleepText(f, imp));
+  return finishSleepImport(imp);
+}
+
+export function parseSleepCsvText(text: string, file = "sleep_data.csv"): SleepImport {
+  return parseSleepFiles([{ name: file, text }]);
+}
+
+async function readZipFiles(
+  zip: JSZip,
+  match: (name: string) => boolean
+): Promise<RawFile[]> {
+  const files: RawFile[] = [];
+  const fileNames = Object.keys(zip.files).filter(
+    (n) => !zip.files[n].dir && match(n)
+  );
+
+  for (const name of fileNames) {
+    const f = zip.file(name);
+    if (!f) continue;
+    files.push({ name, text: await f.async("text") });
+  }
+
+  return files;
+}
+
+/** Chooses a mapping for a file's headers, e.g. from a saved profile. */
+export type MappingPicker = (headers: string[]) => ColumnMapping | undefined;
+
+/**
+ * Imports a ZIP archive: an Apple Health export.zip when it contains
+ * export.xml, Oura/Fitbit/Garmin sleep JSON when any is recognised,
+ * otherwise every CSV inside it.
+ */
+export async function parseZip(
+  file: File,
+  pickMapping?: MappingPicker,
+  cutoffHour?: number
+): Promise<SleepImport> {
+  const zip = await JSZip.loadAsync(file);
+  const health = findHealthExport(zip);
+  if (health) return parseAppleHealthZipEntry(health, cutoffHour);
+
+  const wearable = parseWearableJson(await readZipFiles(zip, isWearableJsonName));
+  if (wearable) return wearable;
+
+  const files = await readZipFiles(zip, (n) => n.toLowerCase().endsWith(".csv"));
+  return parseSleepFiles(files, pickMapping?.(csvHeaders(files)));
+}
+
+/** Imports a single Oura, Fitbit or Garmin sleep JSON file. */
+export async function parseJson(file: File): Promise<SleepImport | null> {
+  return parseWearableJson([{ name: file.name, text: await file.text() }]);
+}
+
+export async function parseCsv(file: File, pickMapping?: MappingPicker): Promise<SleepImport> {
+  const files = [{ name: file.name, text: await file.text() }];
+  return parseSleepFiles(files, pickMapping?.(csvHeaders(files)));
+}
+
+function finishMedImport(events: MedEvent[], report: ImportReport): MedImport {
+  events.sort(compareDates);
+  report.accepted = events.length;
+  report.duplicateDates = findDuplicates(events.map((e) => `${e.date} ${e.label}`));
+  return { events, report };
+}
+
+export async function parseMedsTxt(file: File): Promise<MedImport> {
+  const text = await file.text();
+  const lines = text.split(/\r?\n/).map((l) => l.trim()).filter(Boolean);
+  const events: MedEvent[] = [];
+  const report = emptyReport();
+  report.files.push(file.name);
+
+  lines.forEach((line, i) => {
+    const idx = line.indexOf(" - ");
+    if (idx === -1) {
+      report.rejected.push({ file: file.name, row: i + 1, reason: 'Expected "date - label"' });
+      return;
+    }
+
+    const dateStr = line.slice(0, idx).trim();
+    const label = line.slice(idx + 3).trim();
+    const d = parseCalendarDate(dateStr);
+
+    if (!d) {
+      report.rejected.push({ file: file.name, row: i + 1, reason: `Unparseable date "${dateStr}"` });
+      report.unparseableDates.push(dateStr);
+      return;
+    }
+    events.push({ date: d, label, ...parseMedLabel(label) });
+  });
+
+  return finishMedImport(events, report);
+}
+
+export function parseMedsCsvText(
+  text: string,
+  file = "medications.csv",
+  mapping?: ColumnMapping
+): MedImport {
+  const parsed = Papa.parse(text, { header: true, skipEmptyLines: true });
+  const headers: string[] = parsed.meta?.fields ?? [];
+  const cols = mapping ?? defaultMapping(MED_FIELDS, headers);
+  const col = (field: string) => columnOf(cols, field);
+  const events: MedEvent[] = [];
+  const report = emptyReport();
+  report.files.push(file);
+  reportColumns(report, MED_FIELDS, cols, headers);
+
+  (parsed.data as any[]).forEach((row, i) => {
+    const dateCol = col("date");
+    const dateStr = dateCol ? row[dateCol] : undefined;
+    if (!dateStr) {
+      report.rejected.push({ file, row: i + 1, reason: "Missing date" });
+      return;
+    }
+
+    const d = parseCalendarDate(dateStr);
+    if (!d) {
+      report.rejected.push({ file, row: i + 1, reason: `Unparseable date "${dateStr}"` });
+      report.unparseableDates.push(String(dateStr));
+      return;
+    }
+
+    const medCol = col("medication");
+    const doseCol = col("dose");
+    const actionCol = col("action");
+    const med = (medCol ? row[medCol] ?? "" : "").toString().trim();
+    const doseVal = doseCol ? row[doseCol] : undefined;
+    let dose: number | null = null;
+    if (doseVal !== undefined && doseVal !== null && String(doseVal).trim() !== "") {
+      const parsedDose = parseNumber(doseVal);
+      if (parsedDose.coerced) countCoerced(report, "dose");
+      dose = parsedDose.value;
+    }
+    const actionRaw = (actionCol ? row[actionCol] ?? "" : "")
+      .toString()
+      .trim()
+      .toUpperCase();
+    const action: MedAction =
+      actionRaw === "START" || actionRaw === "STOP" ? actionRaw : "CHANGE";
+
+    events.push({
+      date: d,
+      label: medLabel(med, dose, action),
+      medication: med,
+      dose,
+      action,
+    });
+  });
+
+  return {
+    ...finishMedImport(events, report),
+    files: [{ name: file, text }],
+    mapping: cols,
+  };
+}
+
+export async function parseMedsCsv(file: File, mapping?: ColumnMapping): Promise<MedImport> {
+  return parseMedsCsvText(await file.text(), file.name, mapping);
+}
+
+/** A whole cell that is a plain number, with a dot or comma as the decimal point. */
+const PLAIN_NUMBER = /^[-+]?(\d+([.,]\d+)?|[.,]\d+)$/;
+/** A whole cell with commas grouping thousands, e.g. "1,234,567" or "10,234.5". */
+const GROUPED_NUMBER = /^[-+]?\d{1,3}(,\d{3})+(\.\d+)?$/;
+
+/**
+ * Reads a covariate cell, or null when it is blank or not wholly a number
+ * (times such as "7:30", timestamps, text). A comma followed by exactly
+ * three digits groups thousands ("10,234" steps); any other comma is a
+ * decimal point ("45,2" ms). A single group could be either, so it is
+ * marked ambiguous.
+ */
+function parseCovariateNumber(v: any): { value: number; ambiguous: boolean } | null {
+  const s = String(v ?? "").trim();
+  let n: number;
+  if (GROUPED_NUMBER.test(s)) n = Number(s.replace(/,/g, ""));
+  else if (PLAIN_NUMBER.test(s)) n = Number(s.replace(",", "."));
+  else return null;
+  if (!isFinite(n)) return null;
+  return { value: n, ambiguous: /^[-+]?\d{1,3},\d{3}$/.test(s) };
+}
+
+/** Header names tried, in order, for the date column of a covariate CSV. */
+const COVARIATE_DATE_ALIASES = ["date", "Date", "day", "Day", "summary_date", "Date/Time"];
+
+/**
+ * Imports a CSV with one row per date and any number of numeric columns
+ * (HRV, resting heart rate, steps, readiness, …), e.g. an Oura trends
+ * export. The date column is found by name, else the first column is
+ * used; every other column with at least one number becomes a series.
+ * Blank or non-numeric cells are left out rather than set to 0, and cells
+ * where a comma may be a decimal point are listed in the report.
+ */
+export function parseCovariatesCsvText(text: string, file = "covariates.csv"): CovariateImport {
+  const parsed = Papa.parse(text, { header: true, skipEmptyLines: true });
+  const headers: string[] = (parsed.meta?.fields ?? []).filter(Boolean);
+  const dateCol = COVARIATE_DATE_ALIASES.find((a) => headers.includes(a)) ?? headers[0] ?? null;
+  const data = parsed.data as any[];
+  const report = emptyReport([file]);
+
+  const columns = headers.filter(
+    (h) => h !== dateCol && data.some((r) => parseCovariateNumber(r[h]) !== null)
+  );
+  report.columns = [
+    { field: "date", column: dateCol },
+    ...columns.map((c) => ({ field: c, column: c })),
+  ];
+  report.unknownColumns = headers.filter((h) => h !== dateCol && !columns.includes(h));
+
+  const rows: CovariateRow[] = [];
+  data.forEach((r, i) => {
+    const dateStr = dateCol ? r[dateCol] : undefined;
+    if (!dateStr) {
+      report.rejected.push({ file, row: i + 1, reason: "Missing date" });
+      return;
+    }
+    const date = parseCalendarDate(dateStr);
+    if (!date) {
+      report.rejected.push({ file, row: i + 1, reason: `Unparseable date "${dateStr}"` });
+      report.unparseableDates.push(String(dateStr));
+      return;
+    }
+
+    const values: Record<string, number> = {};
+    columns.forEach((c) => {
+      const parsed = parseCovariateNumber(r[c]);
+      if (!parsed) return;
+      values[c] = parsed.value;
+      if (parsed.ambiguous) {
+        report.ambiguous.push({
+          file,
+          row: i + 1,
+          reason: `${c} "${String(r[c]).trim()}" read as ${parsed.value}, taking the comma as a thousands separator`,
+        });
+      }
+    });
+    rows.push({ date, values });
+  });
+
+  rows.sort(compareDates);
+  report.accepted = rows.length;
+  report.duplicateDates = findDuplicates(rows.map((r) => r.date));
+  return { rows, report };
+}
+
+export async function parseCovariatesCsv(file: File): Promise<CovariateImport> {
+  return parseCovariatesCsvText(await file.text(), file.name);
+}
@@ -0,0 +1,61 @@
+import { compareDates } from "./dates";
+import type { CalendarDate, JournalEntry, SleepRow } from "./types";
+
+/** Offered on every night; tags typed in by the user are added to these. */
+export const DEFAULT_TAGS = [
+  "alcohol",
+  "late caffeine",
+  "exercise",
+  "vivid dreams",
+  "illness",
+  "travel",
+];
+
+/** Tags compare case-insensitively and ignore stray whitespace. */
+export function normalizeTag(tag: string) {
+  return tag.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+export function journalByDate(journal: JournalEntry[]) {
+  return new Map<CalendarDate, JournalEntry>(journal.map((e) => [e.date, e]));
+}
+
+/**
+ * Replaces the entry for `entry.date`. An entry with no tags and a blank
+ * note removes that night from the journal.
+ */
+export function putEntry(journal: JournalEntry[], entry: JournalEntry): JournalEntry[] {
+  const tags = Array.from(new Set(entry.tags.map(normalizeTag).filter(Boolean)));
+  const note = entry.note.trim();
+  const rest = journal.filter((e) => e.date !== entry.date);
+  if (!tags.length && !note) return rest;
+  return [...rest, { date: entry.date, tags, note }].sort(compareDates);
+}
+
+/** The default tags, then any others in use, alphabetically. */
+export function journalTags(journal: JournalEntry[]) {
+  const used = new Set(journal.flatMap((e) => e.tags));
+  DEFAULT_TAGS.forEach((t) => used.delete(t));
+  return [...DEFAULT_TAGS, ...Array.from(used).sort()];
+}
+
+export type TagSplit = {
+  tag: string;
+  /** Nights carrying the tag. */
+  tagged: SleepRow[];
+  /** Every other night, whatever other tags it has. */
+  untagged: SleepRow[];
+};
+
+/** Nights with and without each tag that appears on at least one of them. */
+export function tagSplits(rows: SleepRow[], journal: JournalEntry[]): TagSplit[] {
+  const byDate = journalByDate(journal);
+  const tagsOf = (r: SleepRow) => byDate.get(r.date)?.tags ?? [];
+  const present = journalTags(journal).filter((tag) => rows.some((r) => tagsOf(r).includes(tag)));
+
+  return present.map((tag) => ({
+    tag,
+    tagged: rows.filter((r) => tagsOf(r).includes(tag)),
+    untagged: rows.filter((r) => !tagsOf(r).includes(tag)),
+  }));
+}
@@ -0,0 +1,86 @@
+import Papa from "papaparse";
+import { compareDates } from "./dates";
+import { medLabel } from "./regimen";
+import type { CalendarDate, MedAction, MedEvent } from "./types";
+
+/** Builds an event with the same label the CSV importer would give it. */
+export function medEvent(
+  date: CalendarDate,
+  medication: string,
+  dose: number | null,
+  action: MedAction
+): MedEvent {
+  const name = medication.trim();
+  return { date, label: medLabel(name, dose, action), medication: name, dose, action };
+}
+
+const sameEvent = (a: MedEvent, b: MedEvent) =>
+  a.date === b.date &&
+  a.medication.toLowerCase() === b.medication.toLowerCase() &&
+  a.dose === b.dose &&
+  a.action === b.action;
+
+/**
+ * Problems with each event of a medication log, replayed in date order:
+ * unnamed events, exact duplicates, a STOP or dose change for a drug that
+ * was never started (or already stopped), and a second START of a drug
+ * still being taken. Events without problems are absent from the map.
+ */
+export function medLogIssues(meds: MedEvent[]): Map<MedEvent, string[]> {
+  const issues = new Map<MedEvent, string[]>();
+  const add = (e: MedEvent, message: string) => {
+    if (!issues.has(e)) issues.set(e, []);
+    if (!issues.get(e)!.includes(message)) issues.get(e)!.push(message);
+  };
+
+  const sorted = [...meds].sort(compareDates);
+  // Started medications and the date of their START
+  const started = new Map<string, CalendarDate>();
+
+  sorted.forEach((e, i) => {
+    if (!e.medication) {
+      add(e, "No medication name");
+      return;
+    }
+    sorted.slice(0, i).forEach((o) => {
+      if (sameEvent(o, e)) {
+        add(o, "Duplicate entry");
+        add(e, "Duplicate entry");
+      }
+    });
+
+    const since = started.get(e.medication);
+    if (e.action === "START") {
+      if (since) add(e, `${e.medication} was already started on ${since}`);
+      started.set(e.medication, e.date);
+    } else if (e.action === "STOP") {
+      if (!since) add(e, `STOP without a matching START of ${e.medication}`);
+      started.delete(e.medication);
+    } else if (!since) {
+      add(e, `Dose change without a matching START of ${e.medication}`);
+    }
+  });
+
+  return issues;
+}
+
+/**
+ * The log in the bundled `medications.csv` layout (date, medication,
+ * dose_mg, action; the action is blank for dose changes), newest first.
+ */
+export function medsToCsv(meds: MedEvent[]) {
+  const rows = [...meds].sort((a, b) => compareDates(b, a));
+  const body = Papa.unparse(
+    {
+      fields: ["date", "medication", "dose_mg", "action"],
+      data: rows.map((e) => [
+        e.date,
+        e.medication,
+        e.dose ?? "",
+        e.action === "CHANGE" ? "" : e.action,
+      ]),
+    },
+    { newline: "\n" }
+  );
+  return `${body}\n`;
+}
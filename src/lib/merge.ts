@@ -0,0 +1,103 @@
+import { compareDates } from "./dates";
+import type { SleepRow } from "./types";
+
+export type MergeStrategy = "device" | "longest" | "recent";
+
+export type MergePolicy = {
+  strategy: MergeStrategy;
+  /** Source names in order of preference, used by the "device" strategy. */
+  preferred: string[];
+};
+
+export const DEFAULT_MERGE_POLICY: MergePolicy = { strategy: "longest", preferred: [] };
+
+export const UNKNOWN_SOURCE = "Unknown";
+
+export const sourceOf = (r: SleepRow) => r.source || UNKNOWN_SOURCE;
+
+/** Same source, same start and same total: the same session imported twice. */
+function identityKey(r: SleepRow) {
+  return [
+    sourceOf(r),
+    r.onset?.at.getTime() ?? r.date,
+    r.totalSleep.toFixed(3),
+  ].join("|");
+}
+
+function byRecency(a: SleepRow, b: SleepRow) {
+  return (b.importedAt ?? 0) - (a.importedAt ?? 0);
+}
+
+function byLength(a: SleepRow, b: SleepRow) {
+  return b.totalSleep - a.totalSleep;
+}
+
+function rank(policy: MergePolicy) {
+  const order = (r: SleepRow) => {
+    const i = policy.preferred.indexOf(sourceOf(r));
+    return i === -1 ? Number.MAX_SAFE_INTEGER : i;
+  };
+
+  return (a: SleepRow, b: SleepRow) => {
+    if (policy.strategy === "device") return order(a) - order(b) || byLength(a, b);
+    if (policy.strategy === "recent") return byRecency(a, b) || byLength(a, b);
+    return byLength(a, b);
+  };
+}
+
+/** All source names present in the rows, most frequent first. */
+export function sourceNames(rows: SleepRow[]) {
+  const counts = new Map<string, number>();
+  rows.forEach((r) => counts.set(sourceOf(r), (counts.get(sourceOf(r)) ?? 0) + 1));
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .map(([name]) => name);
+}
+
+/** Drops sessions imported more than once, keeping the latest import of each. */
+export function uniqueSessions<T extends SleepRow>(rows: T[]): T[] {
+  const seen = new Map<string, T>();
+  [...rows].sort(byRecency).forEach((r) => {
+    const id = identityKey(r);
+    if (!seen.has(id)) seen.set(id, r);
+  });
+  return Array.from(seen.values());
+}
+
+export type NightResolution<T extends SleepRow = SleepRow> = {
+  dateStr: string;
+  winner: T;
+  /** Every distinct row recorded for the date, winner included. */
+  candidates: T[];
+};
+
+/**
+ * Collapses rows to one per calendar date. Exact re-imports are dropped
+ * first (keeping the latest import); remaining conflicts between sources are
+ * settled by the policy.
+ */
+export function mergeNights<T extends SleepRow>(rows: T[], policy: MergePolicy) {
+  const byDate = new Map<string, T[]>();
+
+  uniqueSessions(rows).forEach((r) => {
+    if (!byDate.has(r.date)) byDate.set(r.date, []);
+    byDate.get(r.date)!.push(r);
+  });
+
+  const compare = rank(policy);
+  const merged: T[] = [];
+  const conflicts: NightResolution<T>[] = [];
+
+  byDate.forEach((rowsOnDate, dateStr) => {
+    const candidates = rowsOnDate.sort(compare);
+    merged.push(candidates[0]);
+    if (candidates.length > 1) {
+      conflicts.push({ dateStr, winner: candidates[0], candidates });
+    }
+  });
+
+  merged.sort(compareDates);
+  conflicts.sort((a, b) => (a.dateStr < b.dateStr ? 1 : -1));
+
+  return { rows: merged, conflicts };
+}
@@ -0,0 +1,75 @@
+import { formatClock } from "./timing";
+import type { SleepRow } from "./types";
+
+/**
+ * Hours in bed: the recorded value when there is one, otherwise the span
+ * from sleep onset to final wake. NaN when neither is known.
+ */
+export function timeInBed(r: SleepRow) {
+  if (r.inBed !== undefined) return r.inBed;
+  if (!r.onset || !r.offset) return NaN;
+  return (r.offset.at.getTime() - r.onset.at.getTime()) / 3600000;
+}
+
+/**
+ * Time asleep as a share of time in bed, in %. NaN when time in bed is
+ * unknown or no sleep was recorded (in-bed-only tracking, e.g. a phone).
+ * Capped at 100, since some exports total overlapping samples.
+ */
+export function sleepEfficiency(r: SleepRow) {
+  const inBed = timeInBed(r);
+  if (!(inBed > 0) || r.totalSleep <= 0) return NaN;
+  return Math.min(100, (r.totalSleep / inBed) * 100);
+}
+
+export type NightMetric = {
+  key: string;
+  label: string;
+  /** NaN when the night has no value, e.g. efficiency without time in bed. */
+  get: (r: SleepRow) => number;
+};
+
+/** Per-night sleep metrics shared by the comparison views. */
+export const NIGHT_METRICS: NightMetric[] = [
+  {
+    key: "deep",
+    label: "Deep %",
+    get: (r) => (r.totalSleep ? (r.deep / r.totalSleep) * 100 : 0),
+  },
+  {
+    key: "rem",
+    label: "REM %",
+    get: (r) => (r.totalSleep ? (r.rem / r.totalSleep) * 100 : 0),
+  },
+  { key: "total", label: "Total hrs", get: (r) => r.totalSleep },
+  { key: "awake", label: "Awake hrs", get: (r) => r.awake },
+  { key: "efficiency", label: "Efficiency %", get: sleepEfficiency },
+];
+
+/** A metric's values over `rows`, skipping nights where it is undefined. */
+export function metricValues(rows: SleepRow[], metric: NightMetric) {
+  return rows.map(metric.get).filter((v) => isFinite(v));
+}
+
+/** A nightly series in the chart rows, e.g. "remPct" or "bedtime". */
+export type SeriesMetric = {
+  /** Key of the value in the chart rows. */
+  key: string;
+  label: string;
+  format: (v: number) => string;
+};
+
+const fixed = (digits: number) => (v: number) => v.toFixed(digits);
+
+/** The nightly series shown on the charts. */
+export const SERIES_METRICS: SeriesMetric[] = [
+  { key: "remPct", label: "REM %", format: fixed(1) },
+  { key: "deepPct", label: "Deep %", format: fixed(1) },
+  { key: "efficiency", label: "Efficiency %", format: fixed(1) },
+  { key: "awake", label: "Awake hrs", format: fixed(2) },
+  { key: "total", label: "Total hrs", format: fixed(2) },
+  { key: "bedtime", label: "Bedtime", format: formatClock },
+  { key: "wake", label: "Wake time", format: formatClock },
+  { key: "midpoint", label: "Midpoint", format: formatClock },
+  { key: "sri", label: "SRI", format: fixed(0) },
+];
@@ -0,0 +1,58 @@
+import type { ColumnMapping } from "./importers";
+
+export type ImportKind = "sleep" | "meds";
+
+/** A named column mapping saved for reuse with files of the same layout. */
+export type ImportProfile = {
+  name: string;
+  kind: ImportKind;
+  mapping: ColumnMapping;
+};
+
+function mappedColumns(mapping: ColumnMapping) {
+  return Object.values(mapping)
+    .map((m) => m.column)
+    .filter((c): c is string => !!c);
+}
+
+/**
+ * Finds the saved profile for a file: every column the profile maps must be
+ * present in the headers, and the profile mapping the most columns wins.
+ */
+export function matchProfile(
+  profiles: ImportProfile[],
+  kind: ImportKind,
+  headers: string[]
+): ImportProfile | null {
+  let best: ImportProfile | null = null;
+  let bestCount = 0;
+
+  profiles
+    .filter((p) => p.kind === kind)
+    .forEach((p) => {
+      const cols = mappedColumns(p.mapping);
+      if (cols.length > bestCount && cols.every((c) => headers.includes(c))) {
+        best = p;
+        bestCount = cols.length;
+      }
+    });
+
+  return best;
+}
+
+export function sameMapping(a: ColumnMapping, b: ColumnMapping) {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  return Array.from(keys).every(
+    (k) =>
+      (a[k]?.column ?? null) === (b[k]?.column ?? null) &&
+      (a[k]?.unit ?? "hours") === (b[k]?.unit ?? "hours")
+  );
+}
+
+/** Adds the profile, replacing any existing one of the same kind and name. */
+export function upsertProfile(profiles: ImportProfile[], profile: ImportProfile) {
+  return [
+    ...profiles.filter((p) => !(p.kind === profile.kind && p.name === profile.name)),
+    profile,
+  ];
+}
@@ -0,0 +1,92 @@
+import { compareDates } from "./dates";
+import type { CalendarDate, MedAction, MedEvent } from "./types";
+
+/** Display label in the form used by the original CSV importer, e.g. "Sertraline 50 mg - START". */
+export function medLabel(medication: string, dose: number | null, action: MedAction) {
+  const doseLabel = dose !== null && dose > 0 ? `${dose} mg` : "";
+  const parts = [medication, doseLabel].filter(Boolean).join(" ");
+  return action === "CHANGE" ? parts : `${parts} - ${action}`;
+}
+
+/**
+ * Recovers structure from a free-text label such as "Lamotrigine 25 mg - START".
+ * Anything that does not fit is kept whole as the medication name.
+ */
+export function parseMedLabel(label: string): Omit<MedEvent, "date" | "label"> {
+  const m = label.match(/^(.*?)\s+(\d+(?:[.,]\d+)?)\s*mg\b\s*(?:-\s*(START|STOP))?\s*$/i);
+  if (m) {
+    return {
+      medication: m[1].trim(),
+      dose: parseFloat(m[2].replace(",", ".")),
+      action: (m[3]?.toUpperCase() as MedAction | undefined) ?? "CHANGE",
+    };
+  }
+
+  const a = label.match(/^(.*?)\s*-\s*(START|STOP)\s*$/i);
+  if (a) {
+    return { medication: a[1].trim(), dose: null, action: a[2].toUpperCase() as MedAction };
+  }
+
+  return { medication: label.trim(), dose: null, action: "CHANGE" };
+}
+
+/** Medication names in order of their first event. */
+export function medicationNames(meds: MedEvent[]) {
+  const sorted = [...meds].sort(compareDates);
+  return Array.from(new Set(sorted.map((m) => m.medication).filter(Boolean)));
+}
+
+/**
+ * Replays events in date order and applies them to `state`. START and dose
+ * changes make a drug active at the given dose (`unknownDose` when the event
+ * has none); STOP removes it.
+ */
+function applyEvent(state: Map<string, number>, e: MedEvent, unknownDose: number) {
+  if (e.action === "STOP") state.delete(e.medication);
+  else state.set(e.medication, e.dose ?? unknownDose);
+}
+
+/**
+ * Active dose of every medication on the given calendar date, events on that
+ * date included. This is the regimen as of a day, not of the night dated by
+ * it; doseTimeline gives the latter.
+ */
+export function activeDoses(meds: MedEvent[], date: CalendarDate) {
+  const state = new Map<string, number>();
+  [...meds]
+    .sort(compareDates)
+    .filter((e) => e.date <= date)
+    .forEach((e) => applyEvent(state, e, 0));
+  return state;
+}
+
+export type DoseTimelineRow = { dateStr: CalendarDate } & Record<string, number | null | string>;
+
+/**
+ * One row per night date (ascending) with each medication's active dose, or
+ * null on nights it was not being taken. Nights are dated by the morning
+ * they end, so a night takes the dose active on the evening it starts: an
+ * event dated D first applies to the night ending D + 1, and the night
+ * ending D keeps the old dose, as in the medication delta windows. After a START or change with no dose the
+ * drug reads as `unknownDose`: 0 keeps it visible in the regimen lanes, NaN
+ * lets analyses leave those nights out.
+ */
+export function doseTimeline(
+  meds: MedEvent[],
+  dates: CalendarDate[],
+  unknownDose = 0
+): DoseTimelineRow[] {
+  const names = medicationNames(meds);
+  const events = [...meds].sort(compareDates);
+  const state = new Map<string, number>();
+  let i = 0;
+
+  return dates.map((dateStr) => {
+    while (i < events.length && events[i].date < dateStr) {
+      applyEvent(state, events[i++], unknownDose);
+    }
+    const row: DoseTimelineRow = { dateStr };
+    names.forEach((n) => (row[n] = state.has(n) ? state.get(n)! : null));
+    return row;
+  });
+}
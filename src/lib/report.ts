@@ -0,0 +1,101 @@
+import type { DeltaWindow } from "./deltas";
+import { metricValues, NIGHT_METRICS, type NightMetric } from "./metrics";
+import { formatP, mean, variance, welchTest } from "./stats";
+import type { MedEvent, SleepRow } from "./types";
+
+export type ChangeFinding = {
+  /** Events on the same date share their before/after windows, so they are reported together. */
+  events: MedEvent[];
+  metric: NightMetric;
+  before: number;
+  after: number;
+  diff: number;
+  p: number;
+  /** Difference in pooled standard deviations, so metrics can be ranked together. */
+  effect: number;
+};
+
+/**
+ * Significant (p < 0.05) before/after shifts around medication events,
+ * largest standardised effect first.
+ */
+export function largestChanges(windows: DeltaWindow[], limit = 5): ChangeFinding[] {
+  const findings = new Map<string, ChangeFinding>();
+
+  windows.forEach(({ m, pre, post }) =>
+    NIGHT_METRICS.forEach((metric) => {
+      const key = `${m.date}|${metric.key}`;
+      const existing = findings.get(key);
+      if (existing) {
+        existing.events.push(m);
+        return;
+      }
+
+      const a = metricValues(pre, metric);
+      const b = metricValues(post, metric);
+      const test = welchTest(a, b);
+      if (!test || test.p >= 0.05) return;
+      const sd = Math.sqrt((variance(a) + variance(b)) / 2);
+      findings.set(key, {
+        events: [m],
+        metric,
+        before: mean(a),
+        after: mean(b),
+        diff: test.diff,
+        p: test.p,
+        effect: sd > 0 ? Math.abs(test.diff) / sd : 0,
+      });
+    })
+  );
+
+  return Array.from(findings.values())
+    .sort((x, y) => y.effect - x.effect)
+    .slice(0, limit);
+}
+
+const fmt = (v: number) => v.toFixed(Math.abs(v) < 10 ? 2 : 1);
+
+const listOf = (items: string[]) =>
+  items.length > 1 ? `${items.slice(0, -1).join(", ")} and ${items[items.length - 1]}` : items[0];
+
+const pText = (p: number) => (p < 0.001 ? "p < 0.001" : `p = ${formatP(p)}`);
+
+/** A few plain sentences describing the period, for the top of the report. */
+export function reportSummary(rows: SleepRow[], windows: DeltaWindow[]): string[] {
+  if (rows.length === 0) return ["No nights were recorded in this period."];
+
+  const avg = (key: string) => {
+    const metric = NIGHT_METRICS.find((m) => m.key === key)!;
+    return mean(metricValues(rows, metric));
+  };
+  const efficiency = avg("efficiency");
+  const out = [
+    `${rows.length} nights recorded, averaging ${fmt(avg("total"))} h of sleep ` +
+      `(deep ${fmt(avg("deep"))}%, REM ${fmt(avg("rem"))}%) and ${fmt(avg("awake"))} h awake` +
+      (isFinite(efficiency) ? `, with a sleep efficiency of ${fmt(efficiency)}%.` : "."),
+  ];
+
+  if (windows.length === 0) {
+    out.push("There were no medication changes in this period.");
+    return out;
+  }
+
+  const changes = largestChanges(windows, 3);
+  if (changes.length === 0) {
+    out.push(
+      `None of the ${windows.length} medication changes was followed by a ` +
+        "significant shift in deep %, REM %, total sleep, awake time or sleep efficiency (p < 0.05)."
+    );
+    return out;
+  }
+
+  changes.forEach((c) => {
+    out.push(
+      `After ${listOf(c.events.map((e) => e.label))} on ${c.events[0].date}, ` +
+        `${c.metric.label} ` +
+        `${c.diff > 0 ? "rose" : "fell"} from ${fmt(c.before)} to ${fmt(c.after)} ` +
+        `(${c.diff > 0 ? "+" : ""}${fmt(c.diff)}, ${pText(c.p)}).`
+    );
+  });
+  return out;
+}
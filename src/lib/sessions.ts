@@ -0,0 +1,120 @@
+import { compareDates, zonedCalendarDate } from "./dates";
+import { sourceOf, uniqueSessions } from "./merge";
+import { timeInBed } from "./metrics";
+import type { CalendarDate, SleepDay, SleepRow, ZonedTime } from "./types";
+
+/** Hour of the day from which sleep counts towards the next date. */
+export const DEFAULT_DAY_START = 18;
+
+/**
+ * Sessions separated by at most this many hours are one interrupted sleep
+ * (e.g. awake at 3am, asleep again at 4am) rather than a sleep and a nap.
+ */
+export const SPLIT_GAP_HOURS = 3;
+
+/** Sleep day an instant belongs to, in the zone it was recorded in. */
+export function dayKey(t: ZonedTime, dayStartHour: number) {
+  return zonedCalendarDate({ at: t.at, utcOffset: t.utcOffset + (24 - dayStartHour) * 60 });
+}
+
+function sessionDay(r: SleepRow, dayStartHour: number) {
+  return r.onset ? dayKey(r.onset, dayStartHour) : r.date;
+}
+
+const sum = (rows: SleepRow[], get: (r: SleepRow) => number) =>
+  rows.reduce((s, r) => s + get(r), 0);
+
+/** Summed in-bed hours, or nothing when they are unknown for any of the sessions. */
+function sumInBed(rows: SleepRow[]) {
+  const total = sum(rows, timeInBed);
+  return isFinite(total) ? { inBed: total } : {};
+}
+
+/** Adds up the stages of several sessions; timing spans the earliest start to the latest end. */
+function combine(date: CalendarDate, sessions: SleepRow[]): SleepRow {
+  const onsets = sessions.flatMap((r) => (r.onset ? [r.onset] : []));
+  const offsets = sessions.flatMap((r) => (r.offset ? [r.offset] : []));
+  const imported = sessions.flatMap((r) => (r.importedAt ? [r.importedAt] : []));
+
+  return {
+    date,
+    totalSleep: sum(sessions, (r) => r.totalSleep),
+    core: sum(sessions, (r) => r.core),
+    deep: sum(sessions, (r) => r.deep),
+    rem: sum(sessions, (r) => r.rem),
+    awake: sum(sessions, (r) => r.awake),
+    ...sumInBed(sessions),
+    onset: onsets.length ? onsets.reduce((a, t) => (t.at < a.at ? t : a)) : null,
+    offset: offsets.length ? offsets.reduce((a, t) => (t.at > a.at ? t : a)) : null,
+    ...(sessions[0].source ? { source: sessions[0].source } : {}),
+    ...(imported.length ? { importedAt: Math.max(...imported) } : {}),
+  };
+}
+
+/** Splits one day's sessions into runs with gaps no longer than SPLIT_GAP_HOURS. */
+function bouts(sessions: SleepRow[]): SleepRow[][] {
+  const timed = sessions
+    .filter((r) => r.onset && r.offset)
+    .sort((a, b) => a.onset!.at.getTime() - b.onset!.at.getTime());
+  // Without timing there is no way to tell a nap from a split night
+  const out: SleepRow[][] = sessions.filter((r) => !r.onset || !r.offset).map((r) => [r]);
+
+  let current: SleepRow[] = [];
+  let end = 0;
+  timed.forEach((r) => {
+    const gap = (r.onset!.at.getTime() - end) / 3600000;
+    if (current.length && gap > SPLIT_GAP_HOURS) {
+      out.push(current);
+      current = [];
+    }
+    current.push(r);
+    end = Math.max(end, r.offset!.at.getTime());
+  });
+  if (current.length) out.push(current);
+
+  return out;
+}
+
+/**
+ * Groups sleep sessions into sleep days per source. A session belongs to the
+ * day its start falls in, with days beginning at `dayStartHour` (e.g. 18 →
+ * sleep from 18:00 onward counts towards the next date). The run of sessions
+ * with the most sleep is the main sleep; other runs are naps.
+ */
+export function groupSleepDays(rows: SleepRow[], dayStartHour = DEFAULT_DAY_START): SleepDay[] {
+  const groups = new Map<string, { day: CalendarDate; sessions: SleepRow[] }>();
+
+  uniqueSessions(rows).forEach((r) => {
+    const day = sessionDay(r, dayStartHour);
+    const key = `${sourceOf(r)}|${day}`;
+    if (!groups.has(key)) groups.set(key, { day, sessions: [] });
+    groups.get(key)!.sessions.push(r);
+  });
+
+  const days: SleepDay[] = [];
+  groups.forEach(({ day, sessions }) => {
+    const runs = bouts(sessions).map((b) => ({ sessions: b.length, row: combine(day, b) }));
+    runs.sort((a, b) => b.row.totalSleep - a.row.totalSleep);
+    const [main, ...naps] = runs;
+    days.push({ ...main.row, naps: naps.map((n) => n.row), sessions: main.sessions });
+  });
+
+  return days.sort(compareDates);
+}
+
+export const napHours = (d: SleepDay) => sum(d.naps, (r) => r.totalSleep);
+
+/** The day with its naps' stage hours added in; timing stays that of the main sleep. */
+export function withNaps(d: SleepDay): SleepDay {
+  if (!d.naps.length) return d;
+  const { inBed, ...rest } = d;
+  return {
+    ...rest,
+    totalSleep: d.totalSleep + napHours(d),
+    core: d.core + sum(d.naps, (r) => r.core),
+    deep: d.deep + sum(d.naps, (r) => r.deep),
+    rem: d.rem + sum(d.naps, (r) => r.rem),
+    awake: d.awake + sum(d.naps, (r) => r.awake),
+    ...sumInBed([d, ...d.naps]),
+  };
+}
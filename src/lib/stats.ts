@@ -0,0 +1,162 @@
+export function mean(xs: number[]) {
+  return xs.length ? xs.reduce((s, v) => s + v, 0) / xs.length : NaN;
+}
+
+/** Sample variance (n − 1 denominator). */
+export function variance(xs: number[]) {
+  if (xs.length < 2) return NaN;
+  const m = mean(xs);
+  return xs.reduce((s, v) => s + (v - m) ** 2, 0) / (xs.length - 1);
+}
+
+export function stdev(xs: number[]) {
+  return Math.sqrt(variance(xs));
+}
+
+export function median(xs: number[]) {
+  if (!xs.length) return NaN;
+  const s = [...xs].sort((a, b) => a - b);
+  const mid = Math.floor(s.length / 2);
+  return s.length % 2 ? s[mid] : (s[mid - 1] + s[mid]) / 2;
+}
+
+export type LinearFit = { slope: number; intercept: number; r2: number };
+
+/** Ordinary least-squares fit of y = slope · x + intercept. */
+export function linearFit(xs: number[], ys: number[]): LinearFit | null {
+  const n = Math.min(xs.length, ys.length);
+  if (n < 2) return null;
+
+  const mx = mean(xs);
+  const my = mean(ys);
+  let sxx = 0;
+  let sxy = 0;
+  let syy = 0;
+  for (let i = 0; i < n; i++) {
+    sxx += (xs[i] - mx) ** 2;
+    sxy += (xs[i] - mx) * (ys[i] - my);
+    syy += (ys[i] - my) ** 2;
+  }
+  if (sxx === 0) return null;
+
+  const slope = sxy / sxx;
+  return {
+    slope,
+    intercept: my - slope * mx,
+    r2: syy === 0 ? 1 : (sxy * sxy) / (sxx * syy),
+  };
+}
+
+function logGamma(x: number): number {
+  // Lanczos approximation, g = 7
+  const c = [
+    0.99999999999980993, 676.5203681218851, -1259.1392167224028,
+    771.32342877765313, -176.61502916214059, 12.507343278686905,
+    -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7,
+  ];
+  if (x < 0.5) {
+    return Math.log(Math.PI / Math.sin(Math.PI * x)) - logGamma(1 - x);
+  }
+  x -= 1;
+  let a = c[0];
+  const t = x + 7.5;
+  for (let i = 1; i < 9; i++) a += c[i] / (x + i);
+  return 0.5 * Math.log(2 * Math.PI) + (x + 0.5) * Math.log(t) - t + Math.log(a);
+}
+
+function betaContinuedFraction(a: number, b: number, x: number) {
+  const TINY = 1e-30;
+  let c = 1;
+  let d = 1 - ((a + b) * x) / (a + 1);
+  if (Math.abs(d) < TINY) d = TINY;
+  d = 1 / d;
+  let h = d;
+
+  for (let m = 1; m <= 200; m++) {
+    const m2 = 2 * m;
+    let aa = (m * (b - m) * x) / ((a + m2 - 1) * (a + m2));
+    d = 1 + aa * d;
+    if (Math.abs(d) < TINY) d = TINY;
+    c = 1 + aa / c;
+    if (Math.abs(c) < TINY) c = TINY;
+    d = 1 / d;
+    h *= d * c;
+
+    aa = (-(a + m) * (a + b + m) * x) / ((a + m2) * (a + m2 + 1));
+    d = 1 + aa * d;
+    if (Math.abs(d) < TINY) d = TINY;
+    c = 1 + aa / c;
+    if (Math.abs(c) < TINY) c = TINY;
+    d = 1 / d;
+    const del = d * c;
+    h *= del;
+    if (Math.abs(del - 1) < 1e-12) break;
+  }
+
+  return h;
+}
+
+/** Regularized incomplete beta function I_x(a, b). */
+function incompleteBeta(x: number, a: number, b: number) {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+  const front = Math.exp(
+    logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x)
+  );
+  return x < (a + 1) / (a + b + 2)
+    ? (front * betaContinuedFraction(a, b, x)) / a
+    : 1 - (front * betaContinuedFraction(b, a, 1 - x)) / b;
+}
+
+/** Two-sided tail probability P(|T| ≥ |t|) for Student's t with df degrees of freedom. */
+export function tTwoSidedP(t: number, df: number) {
+  return incompleteBeta(df / (df + t * t), df / 2, 0.5);
+}
+
+/** Critical value t such that P(|T| ≥ t) = alpha, found by bisection. */
+export function tCritical(df: number, alpha = 0.05) {
+  let lo = 0;
+  let hi = 1000;
+  for (let i = 0; i < 100; i++) {
+    const mid = (lo + hi) / 2;
+    if (tTwoSidedP(mid, df) > alpha) lo = mid;
+    else hi = mid;
+  }
+  return (lo + hi) / 2;
+}
+
+export type WelchResult = {
+  diff: number;
+  ciLow: number;
+  ciHigh: number;
+  p: number;
+  df: number;
+};
+
+/**
+ * Welch's unequal-variance t-test for mean(b) − mean(a), with a 95%
+ * confidence interval on the difference. Needs at least two values per side.
+ */
+export function welchTest(a: number[], b: number[]): WelchResult | null {
+  if (a.length < 2 || b.length < 2) return null;
+
+  const va = variance(a) / a.length;
+  const vb = variance(b) / b.length;
+  const diff = mean(b) - mean(a);
+  const se = Math.sqrt(va + vb);
+
+  if (se === 0) {
+    return { diff, ciLow: diff, ciHigh: diff, p: diff === 0 ? 1 : 0, df: a.length + b.length - 2 };
+  }
+
+  const df = (va + vb) ** 2 / (va ** 2 / (a.length - 1) + vb ** 2 / (b.length - 1));
+  const t = diff / se;
+  const margin = tCritical(df) * se;
+
+  return { diff, ciLow: diff - margin, ciHigh: diff + margin, p: tTwoSidedP(t, df), df };
+}
+
+export function formatP(p: number) {
+  if (!isFinite(p)) return "—";
+  return p < 0.001 ? "<0.001" : p.toFixed(3);
+}
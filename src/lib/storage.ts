@@ -0,0 +1,60 @@
+/**
+ * Minimal promise wrapper around a single IndexedDB key/value store. Values
+ * go through structured cloning, so Date fields survive a round trip as-is.
+ */
+
+const DB_NAME = "sleep-insights-explorer";
+const STORE = "kv";
+
+export const STORAGE_KEYS = {
+  sleepRows: "sleepRows",
+  meds: "meds",
+  journal: "journal",
+  covariates: "covariates",
+  settings: "settings",
+  profiles: "profiles",
+} as const;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, 1);
+      req.onupgradeneeded = () => req.result.createObjectStore(STORE);
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+    // Allow a retry after a failed open (e.g. storage blocked)
+    dbPromise.catch(() => (dbPromise = null));
+  }
+  return dbPromise;
+}
+
+function run<T>(
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => IDBRequest
+): Promise<T> {
+  return openDb().then(
+    (db) =>
+      new Promise<T>((resolve, reject) => {
+        const tx = db.transaction(STORE, mode);
+        const req = fn(tx.objectStore(STORE));
+        tx.oncomplete = () => resolve(req.result as T);
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+      })
+  );
+}
+
+export function loadItem<T>(key: string): Promise<T | undefined> {
+  return run<T | undefined>("readonly", (s) => s.get(key));
+}
+
+export function saveItem<T>(key: string, value: T): Promise<void> {
+  return run<void>("readwrite", (s) => s.put(value, key));
+}
+
+export function removeItem(key: string): Promise<void> {
+  return run<void>("readwrite", (s) => s.delete(key));
+}
@@ -0,0 +1,138 @@
+import { addDays, calendarDateToUtc, dayOfWeek } from "./dates";
+import { mean } from "./stats";
+import type { CalendarDate, SleepRow, ZonedTime } from "./types";
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+const SRI_EPOCH = 5 * MINUTE;
+
+/**
+ * Parses export timestamps such as "2024-01-01 23:48:28 -0500", keeping the
+ * UTC offset so clock times can be read in the zone the night was slept in.
+ * Timestamps without an offset (Fitbit, Garmin) are taken as wall-clock time
+ * with an offset of 0, which keeps their clock readings intact.
+ */
+export function parseZonedTime(v: any): ZonedTime | null {
+  const m = String(v ?? "")
+    .trim()
+    .match(
+      /^(\d{4})-(\d{2})-(\d{2})[ T](\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?\s*(Z|[+-]\d{2}:?\d{2})?$/
+    );
+  if (!m) return null;
+
+  const [, y, mo, d, h, mi, s, tz] = m;
+  let utcOffset = 0;
+  if (tz && tz !== "Z") {
+    const sign = tz[0] === "-" ? -1 : 1;
+    const digits = tz.slice(1).replace(":", "");
+    utcOffset = sign * (parseInt(digits.slice(0, 2)) * 60 + parseInt(digits.slice(2)));
+  }
+
+  const localMs = Date.UTC(+y, +mo - 1, +d, +h, +mi, +(s ?? 0));
+  const at = new Date(localMs - utcOffset * MINUTE);
+  return isNaN(at.getTime()) ? null : { at, utcOffset };
+}
+
+/** Wall-clock time of day in hours [0, 24) in the timestamp's own zone. */
+export function clockHours(t: ZonedTime) {
+  const minutes = t.at.getTime() / MINUTE + t.utcOffset;
+  return (((minutes % 1440) + 1440) % 1440) / 60;
+}
+
+/** Maps a clock time onto [-12, 12) so evening and early-morning times average sensibly. */
+function aroundMidnight(h: number) {
+  return h >= 12 ? h - 24 : h;
+}
+
+export function bedtimeHours(r: SleepRow): number | null {
+  return r.onset ? aroundMidnight(clockHours(r.onset)) : null;
+}
+
+export function wakeHours(r: SleepRow): number | null {
+  return r.offset ? clockHours(r.offset) : null;
+}
+
+export function midpointHours(r: SleepRow): number | null {
+  if (!r.onset || !r.offset) return null;
+  const mid = (r.onset.at.getTime() + r.offset.at.getTime()) / 2;
+  return aroundMidnight(clockHours({ at: new Date(mid), utcOffset: r.onset.utcOffset }));
+}
+
+/** Formats hours (possibly negative or past 24) as a clock time, e.g. -0.5 → "23:30". */
+export function formatClock(h: number) {
+  if (!isFinite(h)) return "—";
+  const minutes = ((Math.round(h * 60) % 1440) + 1440) % 1440;
+  const hh = Math.floor(minutes / 60);
+  const mm = minutes % 60;
+  return `${String(hh).padStart(2, "0")}:${String(mm).padStart(2, "0")}`;
+}
+
+/** Nights ending on Saturday or Sunday, i.e. sleep on a Friday or Saturday night. */
+export function isFreeNight(r: SleepRow) {
+  const dow = dayOfWeek(r.date);
+  return dow === 0 || dow === 6;
+}
+
+/**
+ * Social jetlag: how many hours later the sleep midpoint falls on free
+ * (weekend) nights than on work nights. NaN when either group is empty.
+ */
+export function socialJetlag(rows: SleepRow[]) {
+  const free: number[] = [];
+  const work: number[] = [];
+
+  rows.forEach((r) => {
+    const mid = midpointHours(r);
+    if (mid === null) return;
+    (isFreeNight(r) ? free : work).push(mid);
+  });
+
+  return mean(free) - mean(work);
+}
+
+export type Concordance = { agree: number; total: number };
+
+/**
+ * Per-night inputs for the Sleep Regularity Index (Phillips et al., 2017).
+ * For each night, the 24h window ending at local noon of its date is split
+ * into 5-minute epochs and compared with the same epochs one day earlier;
+ * `agree` counts epochs where the sleep/wake state matched. Nights whose
+ * previous date has no timing data are left out.
+ */
+export function sleepConcordance(rows: SleepRow[]): Map<CalendarDate, Concordance> {
+  const out = new Map<CalendarDate, Concordance>();
+  const intervals = rows
+    .filter((r) => r.onset && r.offset)
+    .map((r) => [r.onset!.at.getTime(), r.offset!.at.getTime()] as const)
+    .sort((a, b) => a[0] - b[0]);
+  const timedDates = new Set(
+    rows.filter((r) => r.onset && r.offset).map((r) => r.date)
+  );
+
+  rows.forEach((r) => {
+    if (!r.offset) return;
+    const key = r.date;
+    if (!timedDates.has(key) || !timedDates.has(addDays(key, -1))) return;
+
+    // Noon on the night's date in the zone it was recorded in, not the browser's
+    const end = calendarDateToUtc(key) + DAY / 2 - r.offset.utcOffset * MINUTE;
+    const nearby = intervals.filter(([s, e]) => e > end - 2 * DAY && s < end);
+    const asleep = (t: number) => nearby.some(([s, e]) => t >= s && t < e);
+    let agree = 0;
+    let total = 0;
+    for (let t = end - DAY; t < end; t += SRI_EPOCH) {
+      if (asleep(t) === asleep(t - DAY)) agree++;
+      total++;
+    }
+    out.set(key, { agree, total });
+  });
+
+  return out;
+}
+
+/** Scales a concordance to the SRI range: 100 is perfectly regular, 0 is random. */
+export function sriScore(c: Concordance[]) {
+  const agree = c.reduce((s, x) => s + x.agree, 0);
+  const total = c.reduce((s, x) => s + x.total, 0);
+  return total ? (200 * agree) / total - 100 : NaN;
+}
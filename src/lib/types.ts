@@ -0,0 +1,84 @@
+/**
+ * A day on the calendar as "YYYY-MM-DD", with no time or zone attached, so
+ * it reads the same in every browser time zone. Build one with the helpers
+ * in dates.ts.
+ */
+export type CalendarDate = string & { readonly __calendarDate: true };
+
+/** An instant together with the UTC offset (in minutes) it was recorded in. */
+export type ZonedTime = {
+  at: Date;
+  utcOffset: number;
+};
+
+export type SleepRow = {
+  date: CalendarDate;
+  totalSleep: number;
+  core: number;
+  deep: number;
+  rem: number;
+  awake: number;
+  /** Hours in bed, when the source records it; see timeInBed() for the fallback. */
+  inBed?: number;
+  onset: ZonedTime | null;
+  offset: ZonedTime | null;
+  /** Device or app that recorded the night (the export's Sources column). */
+  source?: string;
+  /** When the row was imported (ms since epoch); unset for bundled data. */
+  importedAt?: number;
+};
+
+/** Main sleep for one sleep day and source, with the day's other sessions. */
+export type SleepDay = SleepRow & {
+  /** Sessions apart from the main sleep, e.g. daytime naps. */
+  naps: SleepRow[];
+  /** Sessions combined into the main sleep; more than one for a split night. */
+  sessions: number;
+};
+
+export type MedAction = "START" | "STOP" | "CHANGE";
+
+export type MedEvent = {
+  date: CalendarDate;
+  label: string;
+  medication: string;
+  /** Dose in mg, or null when the source did not give one. */
+  dose: number | null;
+  action: MedAction;
+};
+
+/** Free-form note and tags for one night, keyed by its sleep date. */
+export type JournalEntry = {
+  date: CalendarDate;
+  tags: string[];
+  note: string;
+};
+
+/**
+ * Extra daily measurements from another export (HRV, resting heart rate,
+ * steps, …) by column name. Columns a date has no value for are absent.
+ */
+export type CovariateRow = {
+  date: CalendarDate;
+  values: Record<string, number>;
+};
+
+export type MonthlyData = {
+  month: string;
+  remPct: number;
+  deepPct: number;
+  total: number;
+  awake: number;
+  /** Mean sleep efficiency (asleep ÷ in bed), in %. */
+  efficiency: number;
+  bedtime: number;
+  wake: number;
+  midpoint: number;
+  socialJetlag: number;
+  sri: number;
+  n: number;
+  /** Naps recorded in the month, counted apart from nights. */
+  naps: number;
+  /** Mean of each imported daily column over the month's nights. */
+  covariates: Record<string, number>;
+};
@@ -0,0 +1,232 @@
+import { compareDates, parseCalendarDate, zonedCalendarDate } from "./dates";
+import { countCoerced, emptyReport, findDuplicates } from "./importReport";
+import type { RawFile, SleepImport } from "./importers";
+import { parseZonedTime } from "./timing";
+import type { CalendarDate, SleepRow, ZonedTime } from "./types";
+
+export type WearableFormat = "oura" | "fitbit" | "garmin";
+
+const FORMAT_LABELS: Record<WearableFormat, string> = {
+  oura: "Oura data export",
+  fitbit: "Fitbit (Google Takeout)",
+  garmin: "Garmin Connect",
+};
+
+/** Source name recorded on each night, matching what CSV exports put in Sources. */
+const SOURCE_NAMES: Record<WearableFormat, string> = {
+  oura: "Oura",
+  fitbit: "Fitbit",
+  garmin: "Garmin",
+};
+
+/** JSON files worth reading from a large export archive. */
+export function isWearableJsonName(name: string) {
+  return /\.json$/i.test(name) && /(sleep|oura)/i.test(name);
+}
+
+const hasKey = (d: any, key: string) =>
+  d !== null && typeof d === "object" && key in d;
+
+const isNum = (v: any): v is number => typeof v === "number" && isFinite(v);
+
+type StageField = "totalSleep" | "core" | "deep" | "rem" | "awake";
+
+const STAGE_FIELDS: StageField[] = ["totalSleep", "core", "deep", "rem", "awake"];
+
+/** A night read from a document, with the fields it had no number for. */
+type ParsedNight = { row: SleepRow; coerced: StageField[] };
+
+/**
+ * Sleep fields in hours from raw values counted in `perHour` units. Missing
+ * values become 0 and are listed, as the CSV importer does.
+ */
+function stageHours(raw: Record<StageField, any>, perHour: number) {
+  const values = {} as Record<StageField, number>;
+  const coerced: StageField[] = [];
+  STAGE_FIELDS.forEach((f) => {
+    values[f] = isNum(raw[f]) ? raw[f] / perHour : 0;
+    if (!isNum(raw[f])) coerced.push(f);
+  });
+  return { values, coerced };
+}
+
+/** Time in bed is optional everywhere, so a missing value is not flagged. */
+const inBedHours = (v: any, perHour: number) => (isNum(v) && v > 0 ? v / perHour : undefined);
+
+function wakeDate(end: ZonedTime | null, fallback: any): CalendarDate | null {
+  return end ? zonedCalendarDate(end) : parseCalendarDate(fallback);
+}
+
+/**
+ * Oura sleep documents, from either the API v2 export (`total_sleep_duration`,
+ * `deep_sleep_duration`, …) or the older v1 layout (`total`, `deep`, …).
+ * Durations are in seconds; light sleep maps to core.
+ */
+function ouraRows(data: any): ParsedNight[] | null {
+  const docs = Array.isArray(data?.sleep) ? data.sleep : Array.isArray(data?.data) ? data.data : null;
+  if (!docs || !docs.some((d: any) => hasKey(d, "bedtime_start"))) return null;
+
+  return docs.flatMap((d: any) => {
+    // Naps are kept and told apart later; deleted periods and rest days are not sleep
+    if (d.type === "deleted" || d.type === "rest") return [];
+
+    const onset = parseZonedTime(d.bedtime_start);
+    const offset = parseZonedTime(d.bedtime_end);
+    const date = wakeDate(offset, d.day ?? d.summary_date);
+    if (!date) return [];
+
+    const { values, coerced } = stageHours(
+      {
+        totalSleep: d.total_sleep_duration ?? d.total,
+        core: d.light_sleep_duration ?? d.light,
+        deep: d.deep_sleep_duration ?? d.deep,
+        rem: d.rem_sleep_duration ?? d.rem,
+        awake: d.awake_time ?? d.awake,
+      },
+      3600
+    );
+    const inBed = inBedHours(d.time_in_bed ?? d.duration, 3600);
+    return [{ row: { date, ...values, inBed, onset, offset }, coerced }];
+  });
+}
+
+/**
+ * Fitbit Takeout `sleep-YYYY-MM-DD.json`: an array of sleep logs in local
+ * time. Stage logs give deep/light/rem/wake minutes; classic logs only
+ * asleep/awake totals, so their stages are flagged as missing. Naps
+ * (`mainSleep: false`) are kept as separate sessions.
+ */
+function fitbitRows(data: any): ParsedNight[] | null {
+  if (!Array.isArray(data) || !data.some((d) => hasKey(d, "dateOfSleep"))) return null;
+
+  return data.flatMap((d: any) => {
+    const date = parseCalendarDate(d.dateOfSleep);
+    if (!date) return [];
+
+    const summary = d.type === "stages" ? d.levels?.summary ?? {} : {};
+    const { values, coerced } = stageHours(
+      {
+        totalSleep: d.minutesAsleep,
+        core: summary.light?.minutes,
+        deep: summary.deep?.minutes,
+        rem: summary.rem?.minutes,
+        awake: d.minutesAwake,
+      },
+      60
+    );
+
+    return [
+      {
+        row: {
+          date,
+          ...values,
+          inBed: inBedHours(d.timeInBed, 60),
+          onset: parseZonedTime(d.startTime),
+          offset: parseZonedTime(d.endTime),
+        },
+        coerced,
+      },
+    ];
+  });
+}
+
+/**
+ * Garmin Connect `*_sleepData.json`: nightly summaries with stage durations
+ * in seconds. Timestamps are GMT; the local offset is used when the export
+ * includes local timestamps, otherwise clock times read as UTC.
+ */
+function garminRows(data: any): ParsedNight[] | null {
+  if (!Array.isArray(data) || !data.some((d) => hasKey(d, "sleepStartTimestampGMT"))) {
+    return null;
+  }
+
+  const zoned = (gmt: any, local: any): ZonedTime | null => {
+    const t = parseZonedTime(gmt);
+    if (!t) return null;
+    const l = parseZonedTime(local);
+    const utcOffset = l ? Math.round((l.at.getTime() - t.at.getTime()) / 60000) : 0;
+    return { at: t.at, utcOffset };
+  };
+
+  return data.flatMap((d: any) => {
+    const date = parseCalendarDate(d.calendarDate);
+    if (!date) return [];
+
+    // No total in the export: it is the sum of whichever stages are present
+    const stages = [d.deepSleepSeconds, d.lightSleepSeconds, d.remSleepSeconds].filter(isNum);
+    const { values, coerced } = stageHours(
+      {
+        totalSleep: stages.length ? stages.reduce((a, b) => a + b, 0) : undefined,
+        core: d.lightSleepSeconds,
+        deep: d.deepSleepSeconds,
+        rem: d.remSleepSeconds,
+        awake: d.awakeSleepSeconds,
+      },
+      3600
+    );
+
+    return [
+      {
+        row: {
+          date,
+          ...values,
+          onset: zoned(d.sleepStartTimestampGMT, d.sleepStartTimestampLocal),
+          offset: zoned(d.sleepEndTimestampGMT, d.sleepEndTimestampLocal),
+        },
+        coerced,
+      },
+    ];
+  });
+}
+
+const PARSERS: [WearableFormat, (data: any) => ParsedNight[] | null][] = [
+  ["oura", ouraRows],
+  ["fitbit", fitbitRows],
+  ["garmin", garminRows],
+];
+
+/**
+ * Recognises Oura, Fitbit and Garmin sleep JSON among the given files.
+ * Returns null when none of them is in a known format.
+ */
+export function parseWearableJson(files: RawFile[]): SleepImport | null {
+  const report = emptyReport();
+  const rows: SleepRow[] = [];
+  const incomplete = new Set<SleepRow>();
+  const formats = new Set<WearableFormat>();
+
+  files.forEach((f) => {
+    let data: any;
+    try {
+      data = JSON.parse(f.text);
+    } catch {
+      return;
+    }
+
+    for (const [format, parse] of PARSERS) {
+      const parsed = parse(data);
+      if (!parsed) continue;
+      formats.add(format);
+      report.files.push(f.name);
+      parsed.forEach(({ row, coerced }) => {
+        const r = { ...row, source: SOURCE_NAMES[format] };
+        rows.push(r);
+        if (coerced.length) incomplete.add(r);
+        coerced.forEach((f) => countCoerced(report, f));
+      });
+      return;
+    }
+  });
+
+  if (formats.size === 0) return null;
+
+  rows.sort(compareDates);
+  report.accepted = rows.length;
+  report.columns = Array.from(formats).map((f) => ({
+    field: "format",
+    column: FORMAT_LABELS[f],
+  }));
+  report.duplicateDates = findDuplicates(rows.map((r) => r.date));
+
+  return { rows, incomplete, report, files: [], mapping: {} };
+}
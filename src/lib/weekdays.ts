@@ -0,0 +1,111 @@
+import { addDays, calendarMonth, dayOfWeek } from "./dates";
+import { SERIES_METRICS, type SeriesMetric } from "./metrics";
+import { mean, median, stdev, welchTest, type WelchResult } from "./stats";
+import { isFreeNight } from "./timing";
+import type { CalendarDate } from "./types";
+
+/** Nights by the evening they start on, Monday night first. */
+export const WEEKDAYS = [
+  { dow: 1, label: "Mon" },
+  { dow: 2, label: "Tue" },
+  { dow: 3, label: "Wed" },
+  { dow: 4, label: "Thu" },
+  { dow: 5, label: "Fri" },
+  { dow: 6, label: "Sat" },
+  { dow: 0, label: "Sun" },
+];
+
+/**
+ * Day of the week a night starts on (0 = Sunday). Nights are dated by the
+ * morning they end, so Friday night is the night dated Saturday.
+ */
+export function nightWeekday(date: CalendarDate) {
+  return dayOfWeek(addDays(date, -1));
+}
+
+export type Distribution = {
+  n: number;
+  mean: number;
+  sd: number;
+  min: number;
+  q1: number;
+  median: number;
+  q3: number;
+  max: number;
+};
+
+export function distribution(xs: number[]): Distribution {
+  const s = [...xs].sort((a, b) => a - b);
+  return {
+    n: s.length,
+    mean: mean(s),
+    sd: s.length > 1 ? stdev(s) : NaN,
+    min: s.length ? s[0] : NaN,
+    // Medians of the lower and upper halves (Tukey's hinges)
+    q1: median(s.slice(0, Math.ceil(s.length / 2))),
+    median: median(s),
+    q3: median(s.slice(Math.floor(s.length / 2))),
+    max: s.length ? s[s.length - 1] : NaN,
+  };
+}
+
+const valuesOf = (rows: any[], key: string) =>
+  rows.flatMap((r) => {
+    const v = r[key];
+    return typeof v === "number" && isFinite(v) ? [v] : [];
+  });
+
+/** Distribution of one metric for each night of the week, Monday night first. */
+export function weekdayStats(rows: any[], key: string) {
+  return WEEKDAYS.map((w) => ({
+    ...w,
+    ...distribution(valuesOf(rows.filter((r) => nightWeekday(r.date) === w.dow), key)),
+  }));
+}
+
+export type WeekendComparison = {
+  metric: SeriesMetric;
+  weekday: Distribution;
+  weekend: Distribution;
+  /** Weekend minus weekday. */
+  test: WelchResult | null;
+};
+
+/**
+ * Work nights (Sunday–Thursday) against free nights (Friday and Saturday)
+ * for every charted metric, as used for social jetlag.
+ */
+export function weekendComparison(
+  rows: any[],
+  metrics: SeriesMetric[] = SERIES_METRICS
+): WeekendComparison[] {
+  const weekend = rows.filter(isFreeNight);
+  const weekday = rows.filter((r) => !isFreeNight(r));
+
+  return metrics.map((metric) => {
+    const a = valuesOf(weekday, metric.key);
+    const b = valuesOf(weekend, metric.key);
+    return { metric, weekday: distribution(a), weekend: distribution(b), test: welchTest(a, b) };
+  });
+}
+
+export type WeekdayMonthGrid = {
+  months: string[];
+  /** Mean per [weekday row][month column], in WEEKDAYS order; NaN where empty. */
+  cells: { mean: number; n: number }[][];
+};
+
+/** Mean of one metric per night of the week and calendar month, for a heatmap. */
+export function weekdayMonthGrid(rows: any[], key: string): WeekdayMonthGrid {
+  const months = Array.from(new Set(rows.map((r) => calendarMonth(r.date)))).sort();
+  const cells = WEEKDAYS.map((w) =>
+    months.map((month) => {
+      const xs = valuesOf(
+        rows.filter((r) => nightWeekday(r.date) === w.dow && calendarMonth(r.date) === month),
+        key
+      );
+      return { mean: mean(xs), n: xs.length };
+    })
+  );
+  return { months, cells };
+}